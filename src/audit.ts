@@ -0,0 +1,206 @@
+/**
+ * Audit log
+ * Appends one JSON line per tool call, with the Coolify requests it made, to
+ * COOLIFY_MCP_AUDIT_LOG, rotating the file by size
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { appendFile, readFile, rename, rm, stat } from "node:fs/promises";
+import { COOLIFY_MCP_AUDIT_LOG, COOLIFY_MCP_AUDIT_MAX_BYTES, COOLIFY_MCP_AUDIT_MAX_FILES } from "./config.js";
+import { matchesAny } from "./policy.js";
+import { redact } from "./redaction.js";
+
+export type AuditStatus = "success" | "error" | "rejected";
+
+export interface AuditRequest {
+  method: string;
+  endpoint: string;
+  status?: number;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  instance: string;
+  /** MCP session ID of the caller; absent on stdio, which has a single session. */
+  session?: string;
+  /** Name and version the client reported when it connected, e.g. `claude-code/1.0.3`. */
+  client?: string;
+  arguments: Record<string, unknown>;
+  requests: AuditRequest[];
+  /** error: failed after sending requests to Coolify; rejected: failed before sending any. */
+  status: AuditStatus;
+  error?: string;
+  duration_ms: number;
+  reveal_secrets?: boolean;
+}
+
+export interface AuditQuery {
+  tool?: string[];
+  resourceUuid?: string;
+  since?: number;
+  until?: number;
+  status?: AuditStatus;
+  limit: number;
+}
+
+// ============================================================================
+// Request Tracking
+// ============================================================================
+
+const requestStorage = new AsyncLocalStorage<AuditRequest[]>();
+
+/** Called by the API client for every request; only recorded while a tool call is being audited. */
+export function recordRequest(method: string, endpoint: string, status?: number): void {
+  requestStorage.getStore()?.push({ method: method.toUpperCase(), endpoint: redact(endpoint), status });
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/** Writes are chained so lines never interleave and rotation never races an append. */
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/** Shifts audit.jsonl to audit.jsonl.1, .1 to .2 and so on, dropping the oldest. */
+async function rotate(path: string): Promise<void> {
+  if (COOLIFY_MCP_AUDIT_MAX_FILES === 0) {
+    await rm(path, { force: true });
+    return;
+  }
+  await rm(`${path}.${COOLIFY_MCP_AUDIT_MAX_FILES}`, { force: true });
+  for (let i = COOLIFY_MCP_AUDIT_MAX_FILES - 1; i >= 1; i--) {
+    await rename(`${path}.${i}`, `${path}.${i + 1}`).catch(() => undefined);
+  }
+  await rename(path, `${path}.1`);
+}
+
+async function writeEntry(path: string, entry: AuditEntry): Promise<void> {
+  const line = `${JSON.stringify(entry)}\n`;
+  if (COOLIFY_MCP_AUDIT_MAX_BYTES > 0) {
+    const size = await stat(path).then((info) => info.size, () => 0);
+    if (size > 0 && size + Buffer.byteLength(line) > COOLIFY_MCP_AUDIT_MAX_BYTES) await rotate(path);
+  }
+  await appendFile(path, line, { mode: 0o600 });
+}
+
+function appendEntry(entry: AuditEntry): Promise<void> {
+  const path = COOLIFY_MCP_AUDIT_LOG;
+  if (!path) return Promise.resolve();
+  pendingWrite = pendingWrite
+    .then(() => writeEntry(path, entry))
+    .catch((error) => {
+      // A broken audit log must not break tool calls
+      console.error(`Failed to write audit log ${path}:`, error instanceof Error ? error.message : error);
+    });
+  return pendingWrite;
+}
+
+export interface AuditRecorder {
+  /** Runs `fn`, recording the Coolify requests it makes. */
+  track<T>(fn: () => Promise<T>): Promise<T>;
+  /** Writes the entry; a failed call is `rejected` when it sent nothing to Coolify, `error` otherwise. */
+  finish(succeeded: boolean, error?: string): Promise<void>;
+}
+
+export interface AuditCaller {
+  instance: string;
+  session?: string;
+  client?: string;
+  revealSecrets: boolean;
+}
+
+/** Arguments holding whole files (.env content, manifests, Dockerfiles, compose files) that may embed secrets anywhere. */
+const FREE_TEXT_ARGUMENTS = ["content", "manifest", "docker_compose_raw", "dockerfile"];
+
+/** Redacts arguments and replaces free-text ones with their size and hash, so calls can still be compared. */
+function auditArguments(args: Record<string, unknown>): Record<string, unknown> {
+  const result = redact(args);
+  for (const key of FREE_TEXT_ARGUMENTS) {
+    if (args[key] === undefined) continue;
+    const text = typeof args[key] === "string" ? args[key] : JSON.stringify(args[key]);
+    const hash = createHash("sha256").update(text).digest("hex");
+    result[key] = `[omitted: ${Buffer.byteLength(text)} bytes, sha256 ${hash.slice(0, 16)}]`;
+  }
+  return result;
+}
+
+/** Starts the audit entry of a tool call; arguments and errors are redacted before they are written. */
+export function startAudit(tool: string, args: Record<string, unknown>, caller: AuditCaller): AuditRecorder {
+  const started = Date.now();
+  const requests: AuditRequest[] = [];
+  return {
+    track: (fn) => requestStorage.run(requests, fn),
+    finish: (succeeded, error) =>
+      appendEntry({
+        timestamp: new Date(started).toISOString(),
+        tool,
+        instance: caller.instance,
+        ...(caller.session && { session: caller.session }),
+        ...(caller.client && { client: caller.client }),
+        arguments: auditArguments(args),
+        requests,
+        status: succeeded ? "success" : requests.length > 0 ? "error" : "rejected",
+        ...(error !== undefined && { error: redact(error) }),
+        duration_ms: Date.now() - started,
+        ...(caller.revealSecrets && { reveal_secrets: true }),
+      }),
+  };
+}
+
+// ============================================================================
+// Querying
+// ============================================================================
+
+function mentionsUuid(entry: AuditEntry, uuid: string): boolean {
+  return (
+    JSON.stringify(entry.arguments).includes(uuid) || entry.requests.some((request) => request.endpoint.includes(uuid))
+  );
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  if (query.tool && query.tool.length > 0 && !matchesAny(entry.tool, query.tool)) return false;
+  if (query.status && entry.status !== query.status) return false;
+  if (query.since !== undefined && time < query.since) return false;
+  if (query.until !== undefined && time > query.until) return false;
+  if (query.resourceUuid && !mentionsUuid(entry, query.resourceUuid)) return false;
+  return true;
+}
+
+async function readEntries(path: string): Promise<AuditEntry[]> {
+  const text = await readFile(path, "utf8").catch((error) => {
+    if (error?.code === "ENOENT") return "";
+    throw error;
+  });
+  const entries: AuditEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip a line cut short by a crash mid-write
+    }
+  }
+  return entries;
+}
+
+/** Entries matching `query`, newest first, searching the current log and then the rotated ones. */
+export async function queryAuditLog(query: AuditQuery): Promise<{ entries: AuditEntry[]; truncated: boolean }> {
+  const path = COOLIFY_MCP_AUDIT_LOG;
+  if (!path) throw new Error("The audit log is disabled; set COOLIFY_MCP_AUDIT_LOG to enable it");
+  await pendingWrite;
+
+  const files = [path, ...Array.from({ length: COOLIFY_MCP_AUDIT_MAX_FILES }, (_, i) => `${path}.${i + 1}`)];
+  const matches: AuditEntry[] = [];
+  for (const file of files) {
+    const entries = (await readEntries(file)).reverse();
+    matches.push(...entries.filter((entry) => matchesQuery(entry, query)));
+    const oldest = entries[entries.length - 1];
+    if (matches.length > query.limit) break;
+    // Rotated files only hold older entries
+    if (query.since !== undefined && oldest && Date.parse(oldest.timestamp) < query.since) break;
+  }
+  return { entries: matches.slice(0, query.limit), truncated: matches.length > query.limit };
+}
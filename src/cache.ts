@@ -0,0 +1,128 @@
+/**
+ * Response cache
+ * Short-lived in-memory cache for GET requests to Coolify. Identical requests in
+ * flight at the same time share one call, and any change to a resource family
+ * drops the cached responses that could show it.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { ApiResponse, CANCELLED_MESSAGE } from "./client.js";
+import { COOLIFY_CACHE_TTL_SECONDS } from "./config.js";
+
+interface CacheEntry {
+  response: ApiResponse;
+  expiresAt: number;
+}
+
+/** GET endpoints that change state in Coolify; they are never cached and invalidate like any other change. */
+const MUTATING_GET_PATTERN = /^\/(deploy|enable)\b|\/validate(\?|$)/;
+/** GET endpoints whose answer is expected to change from one call to the next. */
+const UNCACHED_GET_PATTERN = /^\/health\b|\/logs(\?|$)/;
+
+/** Cached responses of other families that include or summarize resources of the changed family. */
+const DEPENDENT_FAMILIES: Record<string, string[]> = {
+  applications: ["resources", "deployments", "projects", "servers"],
+  databases: ["resources", "projects", "servers"],
+  services: ["resources", "projects", "servers"],
+  deploy: ["applications", "databases", "services", "deployments", "resources"],
+  servers: ["resources"],
+  projects: ["resources"],
+  security: ["servers"],
+};
+
+const MAX_ENTRIES = 500;
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<ApiResponse>>();
+const freshStorage = new AsyncLocalStorage<boolean>();
+/** Bumped on every invalidation, so a read that started before a change is not cached after it. */
+let generation = 0;
+
+/** `/applications/abc/envs` belongs to the `applications` family. */
+function familyOf(endpoint: string): string {
+  return endpoint.split(/[/?]/)[1] ?? "";
+}
+
+function invalidate(instance: string, endpoint: string): void {
+  const family = familyOf(endpoint);
+  const families = new Set([family, ...(DEPENDENT_FAMILIES[family] ?? [])]);
+  for (const key of entries.keys()) {
+    const [keyInstance, keyEndpoint] = key.split(" ", 2);
+    if (keyInstance === instance && families.has(familyOf(keyEndpoint))) entries.delete(key);
+  }
+  generation++;
+}
+
+function store(key: string, response: ApiResponse): void {
+  entries.delete(key);
+  entries.set(key, { response, expiresAt: Date.now() + COOLIFY_CACHE_TTL_SECONDS * 1000 });
+  if (entries.size > MAX_ENTRIES) entries.delete(entries.keys().next().value!);
+}
+
+/**
+ * Waits for a request that other callers may share. Cancelling gives up only
+ * this caller's wait; the request keeps running for the others.
+ */
+function awaitShared(request: Promise<ApiResponse>, signal: AbortSignal | undefined): Promise<ApiResponse> {
+  if (!signal) return request;
+  const cancelled: ApiResponse = { success: false, error: CANCELLED_MESSAGE };
+  if (signal.aborted) return Promise.resolve(cancelled);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve(cancelled);
+    signal.addEventListener("abort", onAbort, { once: true });
+    request
+      .finally(() => signal.removeEventListener("abort", onAbort))
+      .then(resolve, reject);
+  });
+}
+
+/** Runs `fn` with cached responses ignored; what it fetches still refreshes the cache. */
+export function withFreshReads<T>(fn: () => Promise<T>): Promise<T> {
+  return freshStorage.run(true, fn);
+}
+
+/**
+ * Sends a request through the cache. Successful GET responses are kept for
+ * COOLIFY_CACHE_TTL_SECONDS; callers always get their own copy. Any other
+ * request invalidates its family once it completes. Requests that can be
+ * shared are sent without the caller's `signal`, which only ends its own wait.
+ */
+export async function cachedRequest(
+  instance: string,
+  method: string,
+  endpoint: string,
+  signal: AbortSignal | undefined,
+  send: (signal?: AbortSignal) => Promise<ApiResponse>
+): Promise<ApiResponse> {
+  if (method.toUpperCase() !== "GET" || MUTATING_GET_PATTERN.test(endpoint)) {
+    try {
+      return await send(signal);
+    } finally {
+      invalidate(instance, endpoint);
+    }
+  }
+  if (COOLIFY_CACHE_TTL_SECONDS <= 0 || UNCACHED_GET_PATTERN.test(endpoint)) return send(signal);
+
+  const key = `${instance} ${endpoint}`;
+  const fresh = freshStorage.getStore() === true;
+  if (!fresh) {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) return structuredClone(entry.response);
+    if (entry) entries.delete(key);
+    const pending = inFlight.get(key);
+    if (pending) return structuredClone(await awaitShared(pending, signal));
+  }
+
+  const startedAt = generation;
+  const request = send().then((response) => {
+    if (response.success && startedAt === generation) store(key, response);
+    return response;
+  });
+  inFlight.set(key, request);
+  // Cleared when the request settles, not when this caller stops waiting for it
+  const settled = () => {
+    if (inFlight.get(key) === request) inFlight.delete(key);
+  };
+  request.then(settled, settled);
+  return structuredClone(await awaitShared(request, signal));
+}
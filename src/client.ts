@@ -0,0 +1,547 @@
+/**
+ * Coolify API client
+ * Low-level request handling (timeouts, retries, instance selection), response shape
+ * validation, and one typed method per Coolify endpoint
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { recordRequest } from "./audit.js";
+import { cachedRequest } from "./cache.js";
+import {
+  COOLIFY_MAX_RETRIES,
+  COOLIFY_REQUEST_TIMEOUT_MS,
+  COOLIFY_RETRY_BASE_DELAY_MS,
+  CoolifyInstance,
+  currentInstance,
+} from "./config.js";
+import type {
+  Application,
+  Database,
+  Deployment,
+  DeploymentStarted,
+  Environment,
+  EnvironmentVariable,
+  PrivateKey,
+  Project,
+  Resource,
+  Server,
+  ServerResource,
+  Service,
+  Team,
+} from "./types.js";
+
+// ============================================================================
+// API Client
+// ============================================================================
+
+export interface ApiResponse<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  status?: number;
+  retries?: number;
+}
+
+export interface RequestOptions {
+  timeoutMs?: number;
+  retries?: number;
+  /** Cancels the request and any retries; defaults to the signal of the tool call being handled. */
+  signal?: AbortSignal;
+}
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const RETRY_MAX_DELAY_MS = 30000;
+export const CANCELLED_MESSAGE = "Request was cancelled";
+/** Requests in flight at once when a tool reads many resources one by one. */
+export const READ_CONCURRENCY = 4;
+
+const signalStorage = new AsyncLocalStorage<AbortSignal>();
+
+/** Runs `fn` with `signal` as the default abort signal of the Coolify requests it makes. */
+export function withAbortSignal<T>(signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+  return signal ? signalStorage.run(signal, fn) : fn();
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Delay before the next attempt: honours `Retry-After` (seconds or HTTP date)
+ * when present, otherwise exponential backoff with jitter.
+ */
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (Number.isFinite(ms) && ms >= 0) return Math.min(ms, RETRY_MAX_DELAY_MS);
+  }
+  const backoff = COOLIFY_RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(backoff + Math.random() * COOLIFY_RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(CANCELLED_MESSAGE));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error(CANCELLED_MESSAGE));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Runs `fn` over `items` with at most `limit` calls in flight, keeping the results in order. */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export async function coolifyRequest<T = any>(
+  endpoint: string,
+  method: string = "GET",
+  body?: any,
+  requestOptions: RequestOptions = {}
+): Promise<ApiResponse<T>> {
+  const instance = currentInstance();
+  const signal = requestOptions.signal ?? signalStorage.getStore();
+  return cachedRequest(instance.name, method, endpoint, signal, (sendSignal) =>
+    sendRequest<T>(instance, endpoint, method, body, { ...requestOptions, signal: sendSignal })
+  );
+}
+
+async function sendRequest<T>(
+  instance: CoolifyInstance,
+  endpoint: string,
+  method: string,
+  body: any,
+  requestOptions: RequestOptions
+): Promise<ApiResponse<T>> {
+  const url = `${instance.baseUrl}/api/v1${endpoint}`;
+  const timeoutMs = requestOptions.timeoutMs ?? COOLIFY_REQUEST_TIMEOUT_MS;
+  const maxRetries = IDEMPOTENT_METHODS.has(method.toUpperCase())
+    ? requestOptions.retries ?? COOLIFY_MAX_RETRIES
+    : 0;
+  const signal = requestOptions.signal;
+
+  let attempt = 0;
+  while (true) {
+    if (signal?.aborted) {
+      recordRequest(method, endpoint);
+      return { success: false, error: CANCELLED_MESSAGE, ...(attempt > 0 && { retries: attempt }) };
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    let result: ApiResponse<T>;
+    let retryAfter: string | null = null;
+    let retryable = false;
+
+    try {
+      const options: RequestInit = {
+        method,
+        headers: {
+          Authorization: `Bearer ${instance.apiToken}`,
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        },
+        signal: controller.signal,
+      };
+
+      if (body && method !== "GET") {
+        options.body = JSON.stringify(body);
+      }
+
+      const response = await fetch(url, options);
+      // Most endpoints return JSON, but some (e.g. /version) return plain text
+      const text = await response.text().catch(() => "");
+      let data: any = null;
+      try {
+        data = text ? JSON.parse(text) : null;
+      } catch {
+        data = text;
+      }
+
+      if (!response.ok) {
+        const errorMessage = data && typeof data === 'object' && 'message' in data 
+          ? String(data.message) 
+          : `HTTP ${response.status}: ${response.statusText}`;
+        result = {
+          success: false,
+          error: errorMessage,
+          status: response.status,
+        };
+        retryable = isRetryableStatus(response.status);
+        retryAfter = response.headers.get("retry-after");
+      } else {
+        result = { success: true, data: data as T, status: response.status };
+      }
+    } catch (error) {
+      const cancelled = signal?.aborted === true;
+      const timedOut = controller.signal.aborted && !cancelled;
+      result = {
+        success: false,
+        error: cancelled
+          ? CANCELLED_MESSAGE
+          : timedOut
+            ? `Request timed out after ${timeoutMs}ms`
+            : error instanceof Error ? error.message : "Unknown error occurred",
+      };
+      retryable = !cancelled;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    if (!retryable || attempt >= maxRetries) {
+      recordRequest(method, endpoint, result.status);
+      return attempt > 0 ? { ...result, retries: attempt } : result;
+    }
+
+    // A cancelled wait ends the loop through the aborted check above
+    await sleep(retryDelay(attempt, retryAfter), signal).catch(() => {});
+    attempt++;
+  }
+}
+
+// ============================================================================
+// Response Validation
+// ============================================================================
+
+type FieldType = "string" | "number" | "boolean" | "object" | "array";
+
+/** Required fields and their types; a trailing `?` allows the field to be missing or null. */
+type Shape = Record<string, FieldType | `${FieldType}?`>;
+
+const shapes = {
+  team: { id: "number", name: "string" },
+  project: { uuid: "string", name: "string", environments: "array?" },
+  environment: { name: "string", applications: "array?", services: "array?" },
+  server: { uuid: "string", name: "string", ip: "string" },
+  serverResource: { uuid: "string", name: "string", type: "string" },
+  privateKey: { uuid: "string", name: "string" },
+  application: { uuid: "string", name: "string", status: "string?", build_pack: "string?" },
+  database: { uuid: "string", name: "string", status: "string?" },
+  service: { uuid: "string", name: "string", status: "string?" },
+  deployment: { deployment_uuid: "string", status: "string", logs: "string?" },
+  environmentVariable: { uuid: "string", key: "string", value: "string?" },
+  resource: { uuid: "string", name: "string", type: "string" },
+  created: { uuid: "string" },
+} satisfies Record<string, Shape>;
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function shapeMismatch(value: unknown, shape: Shape, path: string): string | null {
+  if (typeOf(value) !== "object") return `${path || "response"} expected object, got ${typeOf(value)}`;
+  for (const [field, spec] of Object.entries(shape)) {
+    const optional = spec.endsWith("?");
+    const expected = optional ? spec.slice(0, -1) : spec;
+    const actual = typeOf((value as Record<string, unknown>)[field]);
+    if (optional && (actual === "undefined" || actual === "null")) continue;
+    if (actual !== expected) return `${path}${path ? "." : ""}${field} expected ${expected}, got ${actual}`;
+  }
+  return null;
+}
+
+/**
+ * Checks a successful response against the expected shape. A mismatch turns the
+ * response into an error that still carries the raw data, so a change in
+ * Coolify's API is reported clearly instead of surfacing as `undefined` later.
+ */
+function validate<T>(response: ApiResponse, endpoint: string, shape: Shape, list = false): ApiResponse<T> {
+  if (!response.success) return response;
+
+  let mismatch: string | null;
+  if (list) {
+    mismatch = Array.isArray(response.data)
+      ? response.data.map((item, i) => shapeMismatch(item, shape, `[${i}]`)).find(Boolean) ?? null
+      : `response expected array, got ${typeOf(response.data)}`;
+  } else {
+    mismatch = shapeMismatch(response.data, shape, "");
+  }
+  if (!mismatch) return response;
+
+  return {
+    ...response,
+    success: false,
+    error:
+      `Unexpected response from ${endpoint}: ${mismatch}. ` +
+      "The Coolify API may have changed; check the version with coolify_version.",
+  };
+}
+
+async function get<T>(endpoint: string, shape?: Shape, list = false): Promise<ApiResponse<T>> {
+  const response = await coolifyRequest(endpoint);
+  return shape ? validate<T>(response, endpoint, shape, list) : response;
+}
+
+function withQuery(endpoint: string, params: Record<string, string | number | boolean | undefined | null>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null || value === false || value === "") continue;
+    query.set(key, String(value));
+  }
+  const queryStr = query.toString();
+  return queryStr ? `${endpoint}?${queryStr}` : endpoint;
+}
+
+// ============================================================================
+// Version Check
+// ============================================================================
+
+/** Major Coolify version whose API this server is written against. */
+const SUPPORTED_MAJOR_VERSION = 4;
+/** How long a failed version check is remembered before the next call tries again. */
+const VERSION_CHECK_RETRY_MS = 60_000;
+
+const versionChecks = new Map<string, Promise<string | null>>();
+const reportedVersionWarnings = new Set<string>();
+
+async function versionWarning(): Promise<string | null> {
+  const instance = currentInstance();
+  // A single attempt: tool calls wait for this check, so it must not retry against a host that is down
+  const response = await coolifyRequest("/version", "GET", undefined, { retries: 0 });
+  if (!response.success) {
+    // Unreachable right now; check again after a while rather than stalling every call on it
+    setTimeout(() => versionChecks.delete(instance.name), VERSION_CHECK_RETRY_MS).unref();
+    return null;
+  }
+
+  const version = String(response.data ?? "").trim();
+  const major = Number(/^v?(\d+)\./.exec(version)?.[1]);
+  if (!Number.isFinite(major)) {
+    return `Could not determine the Coolify version of instance "${instance.name}" (got "${version}")`;
+  }
+  if (major !== SUPPORTED_MAJOR_VERSION) {
+    return (
+      `Instance "${instance.name}" runs Coolify ${version}, but this server targets the ` +
+      `v${SUPPORTED_MAJOR_VERSION} API. Some tools may fail or return unexpected data.`
+    );
+  }
+  return null;
+}
+
+/**
+ * Returns a version mismatch warning for the current instance the first time
+ * it is asked for, and null afterwards.
+ */
+export async function takeVersionWarning(): Promise<string | null> {
+  const instance = currentInstance();
+  if (reportedVersionWarnings.has(instance.name)) return null;
+
+  if (!versionChecks.has(instance.name)) {
+    versionChecks.set(instance.name, versionWarning().catch(() => null));
+  }
+  const warning = await versionChecks.get(instance.name)!;
+  // Concurrent calls share the same check; only the first one reports it
+  if (!warning || reportedVersionWarnings.has(instance.name)) return null;
+  reportedVersionWarnings.add(instance.name);
+  console.error(`Warning: ${warning}`);
+  return warning;
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+export type EnvResourceType = "application" | "service";
+
+export const DATABASE_TYPES = [
+  "postgresql",
+  "mysql",
+  "mariadb",
+  "mongodb",
+  "redis",
+  "clickhouse",
+  "dragonfly",
+  "keydb",
+] as const;
+
+export type DatabaseType = (typeof DATABASE_TYPES)[number];
+
+export type ApplicationSource =
+  | "public"
+  | "private-github-app"
+  | "private-deploy-key"
+  | "dockerfile"
+  | "dockerimage"
+  | "dockercompose";
+
+export interface DeleteOptions {
+  delete_configurations?: boolean;
+  delete_volumes?: boolean;
+}
+
+function envsEndpoint(type: EnvResourceType, uuid: string): string {
+  return `/${type === "service" ? "services" : "applications"}/${uuid}/envs`;
+}
+
+/** Both flags are always sent: Coolify treats a missing flag as true, and withQuery drops false values. */
+function deleteQuery(endpoint: string, options: DeleteOptions): string {
+  return withQuery(endpoint, {
+    delete_configurations: String(options.delete_configurations !== false),
+    delete_volumes: String(options.delete_volumes !== false),
+  });
+}
+
+export const api = {
+  // Health & System
+  health: () => coolifyRequest<string>("/health"),
+  version: () => coolifyRequest<string>("/version"),
+  enableApi: () => coolifyRequest("/enable", "GET"),
+
+  // Teams
+  listTeams: () => get<Team[]>("/teams", shapes.team, true),
+  getCurrentTeam: () => get<Team>("/teams/current", shapes.team),
+  getTeamMembers: () => coolifyRequest("/teams/current/members"),
+
+  // Projects
+  listProjects: () => get<Project[]>("/projects", shapes.project, true),
+  getProject: (uuid: string) => get<Project>(`/projects/${uuid}`, shapes.project),
+  createProject: (body: Record<string, any>) => coolifyRequest<{ uuid: string }>("/projects", "POST", body),
+  updateProject: (uuid: string, body: Record<string, any>) => coolifyRequest<Project>(`/projects/${uuid}`, "PATCH", body),
+  deleteProject: (uuid: string) => coolifyRequest(`/projects/${uuid}`, "DELETE"),
+
+  // Environments
+  getEnvironment: (projectUuid: string, name: string) =>
+    get<Environment>(`/projects/${projectUuid}/${name}`, shapes.environment),
+  createEnvironment: (projectUuid: string, body: Record<string, any>) =>
+    coolifyRequest(`/projects/${projectUuid}/environments`, "POST", body),
+  deleteEnvironment: (projectUuid: string, name: string) => coolifyRequest(`/projects/${projectUuid}/${name}`, "DELETE"),
+
+  // Servers
+  listServers: () => get<Server[]>("/servers", shapes.server, true),
+  getServer: (uuid: string, options: { resources?: boolean } = {}) =>
+    get<Server>(withQuery(`/servers/${uuid}`, { resources: options.resources }), shapes.server),
+  createServer: (body: Record<string, any>) => coolifyRequest<{ uuid: string }>("/servers", "POST", body),
+  updateServer: (uuid: string, body: Record<string, any>) => coolifyRequest<Server>(`/servers/${uuid}`, "PATCH", body),
+  deleteServer: (uuid: string) => coolifyRequest(`/servers/${uuid}`, "DELETE"),
+  validateServer: (uuid: string) => coolifyRequest(`/servers/${uuid}/validate`, "GET"),
+  getServerResources: (uuid: string) =>
+    get<ServerResource[]>(`/servers/${uuid}/resources`, shapes.serverResource, true),
+  getServerDomains: (uuid: string) => coolifyRequest(`/servers/${uuid}/domains`),
+
+  // GitHub Apps
+  listGithubApps: () => coolifyRequest("/github-apps"),
+  listGithubAppRepositories: (id: string | number) => coolifyRequest(`/github-apps/${id}/repositories`),
+
+  // Private Keys
+  listPrivateKeys: () => get<PrivateKey[]>("/security/keys", shapes.privateKey, true),
+  getPrivateKey: (uuid: string) => get<PrivateKey>(`/security/keys/${uuid}`, shapes.privateKey),
+  createPrivateKey: (body: Record<string, any>) => coolifyRequest<{ uuid: string }>("/security/keys", "POST", body),
+  updatePrivateKey: (uuid: string, body: Record<string, any>) =>
+    coolifyRequest<PrivateKey>(`/security/keys/${uuid}`, "PATCH", body),
+  deletePrivateKey: (uuid: string) => coolifyRequest(`/security/keys/${uuid}`, "DELETE"),
+
+  // Applications
+  listApplications: () => get<Application[]>("/applications", shapes.application, true),
+  getApplication: (uuid: string) => get<Application>(`/applications/${uuid}`, shapes.application),
+  createApplication: (source: ApplicationSource, body: Record<string, any>) =>
+    coolifyRequest<{ uuid: string }>(`/applications/${source}`, "POST", body),
+  updateApplication: (uuid: string, body: Record<string, any>) =>
+    coolifyRequest<Application>(`/applications/${uuid}`, "PATCH", body),
+  deleteApplication: (uuid: string, options: DeleteOptions = {}) =>
+    coolifyRequest(deleteQuery(`/applications/${uuid}`, options), "DELETE"),
+  startApplication: (uuid: string, options: { force?: boolean; commit?: string } = {}) =>
+    coolifyRequest<DeploymentStarted>(
+      withQuery(`/applications/${uuid}/start`, { force: options.force, commit: options.commit }),
+      "POST"
+    ),
+  stopApplication: (uuid: string) => coolifyRequest(`/applications/${uuid}/stop`, "POST"),
+  restartApplication: (uuid: string) => coolifyRequest<DeploymentStarted>(`/applications/${uuid}/restart`, "POST"),
+  getApplicationLogs: (uuid: string, options: { tail?: number; since?: string } = {}) =>
+    coolifyRequest(withQuery(`/applications/${uuid}/logs`, { tail: options.tail, since: options.since })),
+  listApplicationDeployments: (uuid: string, options: { skip?: number; take?: number } = {}) =>
+    coolifyRequest<Deployment[] | { deployments: Deployment[] }>(
+      withQuery(`/applications/${uuid}/deployments`, { skip: options.skip, take: options.take })
+    ),
+
+  // Environment Variables (applications and services)
+  listEnvs: (type: EnvResourceType, uuid: string) =>
+    get<EnvironmentVariable[]>(envsEndpoint(type, uuid), shapes.environmentVariable, true),
+  createEnv: (type: EnvResourceType, uuid: string, body: Record<string, any>) =>
+    coolifyRequest<{ uuid: string }>(envsEndpoint(type, uuid), "POST", body),
+  updateEnv: (type: EnvResourceType, uuid: string, envUuid: string, body: Record<string, any>) =>
+    coolifyRequest(envsEndpoint(type, uuid), "PATCH", { uuid: envUuid, ...body }),
+  deleteEnv: (type: EnvResourceType, uuid: string, envUuid: string) =>
+    coolifyRequest(`${envsEndpoint(type, uuid)}/${envUuid}`, "DELETE"),
+  bulkUpdateEnvs: (type: EnvResourceType, uuid: string, variables: Record<string, any>[]) =>
+    coolifyRequest(`${envsEndpoint(type, uuid)}/bulk`, "PATCH", { data: variables }),
+
+  // Databases
+  listDatabases: () => get<Database[]>("/databases", shapes.database, true),
+  getDatabase: (uuid: string) => get<Database>(`/databases/${uuid}`, shapes.database),
+  createDatabase: (type: DatabaseType, body: Record<string, any>) =>
+    coolifyRequest<{ uuid: string }>(`/databases/${type}`, "POST", body),
+  updateDatabase: (uuid: string, body: Record<string, any>) => coolifyRequest<Database>(`/databases/${uuid}`, "PATCH", body),
+  deleteDatabase: (uuid: string, options: DeleteOptions = {}) =>
+    coolifyRequest(deleteQuery(`/databases/${uuid}`, options), "DELETE"),
+  startDatabase: (uuid: string) => coolifyRequest(`/databases/${uuid}/start`, "POST"),
+  stopDatabase: (uuid: string) => coolifyRequest(`/databases/${uuid}/stop`, "POST"),
+  restartDatabase: (uuid: string) => coolifyRequest(`/databases/${uuid}/restart`, "POST"),
+
+  // Services
+  listServices: () => get<Service[]>("/services", shapes.service, true),
+  getService: (uuid: string) => get<Service>(`/services/${uuid}`, shapes.service),
+  createService: (body: Record<string, any>) => coolifyRequest<{ uuid: string }>("/services", "POST", body),
+  updateService: (uuid: string, body: Record<string, any>) => coolifyRequest<Service>(`/services/${uuid}`, "PATCH", body),
+  deleteService: (uuid: string, options: DeleteOptions = {}) =>
+    coolifyRequest(deleteQuery(`/services/${uuid}`, options), "DELETE"),
+  startService: (uuid: string) => coolifyRequest(`/services/${uuid}/start`, "POST"),
+  stopService: (uuid: string) => coolifyRequest(`/services/${uuid}/stop`, "POST"),
+  restartService: (uuid: string) => coolifyRequest(`/services/${uuid}/restart`, "POST"),
+
+  // Deployments
+  deploy: (options: { uuid?: string; tag?: string; force?: boolean; pr?: number }) =>
+    // GET /deploy queues a new deployment on every call, so it must not be retried
+    coolifyRequest<{ deployments: DeploymentStarted[] }>(
+      withQuery("/deploy", { uuid: options.uuid, tag: options.tag, force: options.force, pr: options.pr }),
+      "GET",
+      undefined,
+      { retries: 0 }
+    ),
+  getDeployment: (uuid: string) => get<Deployment>(`/deployments/${uuid}`, shapes.deployment),
+
+  // Resources
+  listResources: () => get<Resource[]>("/resources", shapes.resource, true),
+};
+
+// ============================================================================
+// Projects
+// ============================================================================
+
+/**
+ * The projects `match` selects, each with its environments, whose `id` is the
+ * `environment_id` of the resources in it. Projects are read READ_CONCURRENCY at a time.
+ */
+export async function listProjectEnvironments(
+  match: (project: Project) => boolean = () => true
+): Promise<{ project: Project; environments: Environment[] }[]> {
+  const projects = await api.listProjects();
+  if (!projects.success) throw new Error(`Failed to list projects: ${projects.error}`);
+  return mapWithConcurrency(projects.data!.filter(match), READ_CONCURRENCY, async (project) => {
+    const details = await api.getProject(project.uuid);
+    if (!details.success) throw new Error(`Failed to load project ${project.name}: ${details.error}`);
+    return { project, environments: details.data!.environments ?? [] };
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Configuration for the Coolify MCP Server
+ * Settings from environment variables and command line flags, and the named Coolify instances
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { readFileSync } from "node:fs";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const COOLIFY_BASE_URL = process.env.COOLIFY_BASE_URL || "http://localhost:8000";
+export const COOLIFY_API_TOKEN = process.env.COOLIFY_API_TOKEN || "";
+export const COOLIFY_REQUEST_TIMEOUT_MS = Number(process.env.COOLIFY_REQUEST_TIMEOUT_MS) || 30000;
+export const COOLIFY_MAX_RETRIES = Number.isInteger(Number(process.env.COOLIFY_MAX_RETRIES))
+  ? Math.max(Number(process.env.COOLIFY_MAX_RETRIES), 0)
+  : 3;
+export const COOLIFY_RETRY_BASE_DELAY_MS = Number(process.env.COOLIFY_RETRY_BASE_DELAY_MS) || 500;
+export const COOLIFY_CACHE_TTL_SECONDS = Number.isFinite(Number(process.env.COOLIFY_CACHE_TTL_SECONDS))
+  ? Math.max(Number(process.env.COOLIFY_CACHE_TTL_SECONDS), 0)
+  : 10;
+export const COOLIFY_CONFIRMATION_TTL_SECONDS = Number(process.env.COOLIFY_CONFIRMATION_TTL_SECONDS) || 300;
+export const COOLIFY_MCP_READ_ONLY = process.env.COOLIFY_MCP_READ_ONLY === "true";
+export const COOLIFY_MCP_ALLOWED_TOOLS = parseList(process.env.COOLIFY_MCP_ALLOWED_TOOLS);
+export const COOLIFY_MCP_DENIED_TOOLS = parseList(process.env.COOLIFY_MCP_DENIED_TOOLS);
+export const COOLIFY_MCP_REDACT_KEYS = parseList(process.env.COOLIFY_MCP_REDACT_KEYS);
+export const COOLIFY_MCP_ALLOW_REVEAL = process.env.COOLIFY_MCP_ALLOW_REVEAL === "true";
+export const COOLIFY_MCP_AUDIT_LOG = process.env.COOLIFY_MCP_AUDIT_LOG;
+export const COOLIFY_MCP_AUDIT_MAX_BYTES = Number.isInteger(Number(process.env.COOLIFY_MCP_AUDIT_MAX_BYTES))
+  ? Math.max(Number(process.env.COOLIFY_MCP_AUDIT_MAX_BYTES), 0)
+  : 10 * 1024 * 1024;
+export const COOLIFY_MCP_AUDIT_MAX_FILES = Number.isInteger(Number(process.env.COOLIFY_MCP_AUDIT_MAX_FILES))
+  ? Math.max(Number(process.env.COOLIFY_MCP_AUDIT_MAX_FILES), 0)
+  : 5;
+export const COOLIFY_MCP_WATCH = process.env.COOLIFY_MCP_WATCH === "true";
+export const COOLIFY_MCP_WATCH_INTERVAL_SECONDS = Math.max(Number(process.env.COOLIFY_MCP_WATCH_INTERVAL_SECONDS) || 30, 5);
+export const COOLIFY_MCP_WATCH_PROJECTS = parseList(process.env.COOLIFY_MCP_WATCH_PROJECTS);
+
+export const COOLIFY_MCP_CONFIG = process.env.COOLIFY_MCP_CONFIG;
+export const COOLIFY_INSTANCE = process.env.COOLIFY_INSTANCE;
+export const COOLIFY_MCP_TRANSPORT =
+  cliOption("transport") ?? (process.argv.includes("--http") ? "http" : process.env.COOLIFY_MCP_TRANSPORT) ?? "stdio";
+export const COOLIFY_MCP_HOST = cliOption("host") ?? process.env.COOLIFY_MCP_HOST ?? "127.0.0.1";
+export const COOLIFY_MCP_PORT = Number(cliOption("port") ?? process.env.COOLIFY_MCP_PORT) || 3000;
+export const COOLIFY_MCP_AUTH_TOKEN = process.env.COOLIFY_MCP_AUTH_TOKEN || "";
+export const COOLIFY_MCP_SESSION_IDLE_TIMEOUT_SECONDS = Number.isFinite(
+  Number(process.env.COOLIFY_MCP_SESSION_IDLE_TIMEOUT_SECONDS)
+)
+  ? Math.max(Number(process.env.COOLIFY_MCP_SESSION_IDLE_TIMEOUT_SECONDS), 0)
+  : 1800;
+export const COOLIFY_MCP_TOOLS_DIR = cliOption("tools-dir") ?? process.env.COOLIFY_MCP_TOOLS_DIR;
+
+/** Reads `--name value` or `--name=value` from the command line. */
+function cliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) return args[i + 1];
+    if (args[i].startsWith(`--${name}=`)) return args[i].slice(name.length + 3);
+  }
+  return undefined;
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// ============================================================================
+// Instances
+// ============================================================================
+
+export interface CoolifyInstance {
+  name: string;
+  baseUrl: string;
+  apiToken: string;
+}
+
+/**
+ * Loads named instances from the COOLIFY_MCP_CONFIG file:
+ *
+ *   { "default": "staging",
+ *     "instances": {
+ *       "staging": { "base_url": "https://staging.example.com", "api_token": "..." },
+ *       "production": { "base_url": "https://coolify.example.com", "api_token_env": "COOLIFY_PRODUCTION_TOKEN" } } }
+ *
+ * Without a config file, a single "default" instance is built from
+ * COOLIFY_BASE_URL and COOLIFY_API_TOKEN.
+ */
+function loadInstances(): { instances: Map<string, CoolifyInstance>; defaultName: string } {
+  const instances = new Map<string, CoolifyInstance>();
+
+  if (!COOLIFY_MCP_CONFIG) {
+    instances.set("default", { name: "default", baseUrl: COOLIFY_BASE_URL, apiToken: COOLIFY_API_TOKEN });
+    return { instances, defaultName: "default" };
+  }
+
+  let config: any;
+  try {
+    config = JSON.parse(readFileSync(COOLIFY_MCP_CONFIG, "utf8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read COOLIFY_MCP_CONFIG (${COOLIFY_MCP_CONFIG}): ${reason}`);
+  }
+
+  for (const [name, entry] of Object.entries<any>(config?.instances ?? {})) {
+    if (!entry || typeof entry.base_url !== "string") {
+      throw new Error(`Instance "${name}" in ${COOLIFY_MCP_CONFIG} is missing base_url`);
+    }
+    const apiToken = entry.api_token_env ? process.env[entry.api_token_env] : entry.api_token;
+    instances.set(name, { name, baseUrl: entry.base_url, apiToken: apiToken ?? "" });
+  }
+
+  if (instances.size === 0) {
+    throw new Error(`No instances defined in ${COOLIFY_MCP_CONFIG}`);
+  }
+
+  const defaultName = COOLIFY_INSTANCE ?? config.default ?? instances.keys().next().value;
+  if (!instances.has(defaultName)) {
+    throw new Error(`Default instance "${defaultName}" is not defined in ${COOLIFY_MCP_CONFIG}`);
+  }
+  return { instances, defaultName };
+}
+
+export const { instances, defaultName: defaultInstanceName } = loadInstances();
+
+/** The instance selected for the tool call currently being handled. */
+export const instanceStorage = new AsyncLocalStorage<CoolifyInstance>();
+
+export function resolveInstance(name?: string): CoolifyInstance {
+  const instance = instances.get(name ?? defaultInstanceName);
+  if (!instance) {
+    throw new Error(`Unknown instance "${name}". Available: ${[...instances.keys()].join(", ")}`);
+  }
+  return instance;
+}
+
+export function currentInstance(): CoolifyInstance {
+  return instanceStorage.getStore() ?? resolveInstance();
+}
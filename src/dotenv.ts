@@ -0,0 +1,137 @@
+/**
+ * Minimal .env parser and renderer
+ * Supports comments, `export` prefixes, single/double quoted values, escapes and multiline values
+ */
+
+export interface DotenvEntry {
+  key: string;
+  value: string;
+}
+
+export interface DotenvParseResult {
+  entries: DotenvEntry[];
+  errors: string[];
+}
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+function unescapeDoubleQuoted(value: string): string {
+  return value.replace(/\\([nrt"\\$])/g, (_, char: string) => {
+    switch (char) {
+      case "n":
+        return "\n";
+      case "r":
+        return "\r";
+      case "t":
+        return "\t";
+      default:
+        return char;
+    }
+  });
+}
+
+/** Finds the closing quote, skipping backslash escapes inside double quotes. */
+function findClosingQuote(text: string, quote: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (quote === '"' && text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text[i] === quote) return i;
+  }
+  return -1;
+}
+
+/**
+ * Parses .env content. Later definitions of the same key win. Lines that
+ * cannot be parsed are reported in `errors` instead of aborting the parse.
+ */
+export function parseDotenv(content: string): DotenvParseResult {
+  const text = content.replace(/\r\n?/g, "\n");
+  const values = new Map<string, string>();
+  const errors: string[] = [];
+  let pos = 0;
+  let line = 1;
+
+  while (pos < text.length) {
+    const lineEnd = text.indexOf("\n", pos) === -1 ? text.length : text.indexOf("\n", pos);
+    const raw = text.slice(pos, lineEnd);
+    const trimmed = raw.trim();
+    const startLine = line;
+
+    if (trimmed === "" || trimmed.startsWith("#")) {
+      pos = lineEnd + 1;
+      line++;
+      continue;
+    }
+
+    const assignment = trimmed.replace(/^export\s+/, "");
+    const eq = assignment.indexOf("=");
+    const key = eq === -1 ? "" : assignment.slice(0, eq).trim();
+    if (!KEY_PATTERN.test(key)) {
+      errors.push(`Line ${startLine}: expected KEY=value`);
+      pos = lineEnd + 1;
+      line++;
+      continue;
+    }
+
+    // Offset of the value within the whole text, so quoted values may span lines
+    const valueStart = pos + raw.indexOf(assignment) + eq + 1;
+    const rest = text.slice(valueStart).replace(/^[ \t]+/, "");
+    const restStart = text.length - rest.length;
+    const quote = rest[0];
+
+    if (quote === '"' || quote === "'") {
+      const close = findClosingQuote(text, quote, restStart + 1);
+      if (close === -1) {
+        errors.push(`Line ${startLine}: unterminated ${quote === '"' ? "double" : "single"} quote for ${key}`);
+        break;
+      }
+      const inner = text.slice(restStart + 1, close);
+      values.set(key, quote === '"' ? unescapeDoubleQuoted(inner) : inner);
+
+      const closeLineEnd = text.indexOf("\n", close) === -1 ? text.length : text.indexOf("\n", close);
+      const trailing = text.slice(close + 1, closeLineEnd).trim();
+      if (trailing !== "" && !trailing.startsWith("#")) {
+        errors.push(`Line ${startLine}: unexpected text after closing quote for ${key}`);
+      }
+      line += (text.slice(pos, closeLineEnd).match(/\n/g) ?? []).length;
+      pos = closeLineEnd + 1;
+      line++;
+      continue;
+    }
+
+    // Unquoted: value runs to end of line, an inline comment needs whitespace before '#'
+    const unquoted = text.slice(restStart, lineEnd).replace(/\s+#.*$/, "").trim();
+    values.set(key, unquoted);
+    pos = lineEnd + 1;
+    line++;
+  }
+
+  return {
+    entries: [...values.entries()].map(([key, value]) => ({ key, value })),
+    errors,
+  };
+}
+
+function formatValue(value: string): string {
+  if (value === "") return "";
+  if (/^[A-Za-z0-9_./:@%+,-]+$/.test(value)) return value;
+  if (!value.includes("'") && !value.includes("\n") && !value.includes("\r")) return `'${value}'`;
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, "\\$")
+    .replace(/\r/g, "\\r")
+    .replace(/\n/g, "\\n");
+  return `"${escaped}"`;
+}
+
+/** Renders entries as .env text, quoting only values that need it. */
+export function renderDotenv(entries: DotenvEntry[], header?: string): string {
+  const lines = header ? header.split("\n").map((line) => `# ${line}`) : [];
+  for (const { key, value } of entries) {
+    lines.push(`${key}=${formatValue(value)}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
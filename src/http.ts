@@ -0,0 +1,185 @@
+/**
+ * HTTP transport for the Coolify MCP Server
+ * Serves the streamable HTTP transport on /mcp and the legacy SSE transport on /sse + /messages,
+ * behind bearer-token authentication, plus an unauthenticated /health endpoint
+ */
+
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  authToken: string;
+  /** Streamable HTTP sessions without an open request for this long are closed; 0 keeps them until DELETE. */
+  sessionIdleTimeoutMs: number;
+}
+
+interface StreamableSession {
+  transport: StreamableHTTPServerTransport;
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(chunk);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw === "" ? undefined : JSON.parse(raw);
+}
+
+/**
+ * Starts an HTTP server. Each MCP session gets its own Server instance from
+ * `createMcpServer`, since a Server can only be connected to one transport.
+ */
+export async function startHttpServer(createMcpServer: () => Server, options: HttpServerOptions): Promise<void> {
+  const streamableSessions = new Map<string, StreamableSession>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  /**
+   * Counts the session's open requests (including a standalone GET stream) and
+   * starts the idle timer once the last one closes. Clients that go away without
+   * sending DELETE would otherwise keep their Server in memory forever.
+   */
+  function trackRequest(session: StreamableSession, res: ServerResponse): void {
+    clearTimeout(session.idleTimer);
+    session.openRequests++;
+    res.on("close", () => {
+      session.openRequests--;
+      if (session.openRequests > 0 || options.sessionIdleTimeoutMs <= 0) return;
+      session.idleTimer = setTimeout(() => void session.transport.close(), options.sessionIdleTimeoutMs);
+    });
+  }
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"];
+    const existing = typeof sessionId === "string" ? streamableSessions.get(sessionId) : undefined;
+
+    if (req.method !== "POST") {
+      if (!existing) {
+        sendJsonRpcError(res, 400, -32000, "Bad Request: missing or unknown session ID");
+        return;
+      }
+      trackRequest(existing, res);
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    if (existing) {
+      trackRequest(existing, res);
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId !== undefined || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: missing or unknown session ID");
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableSessions.set(id, session);
+      },
+    });
+    const session: StreamableSession = { transport, openRequests: 0 };
+    transport.onclose = () => {
+      clearTimeout(session.idleTimer);
+      if (transport.sessionId) streamableSessions.delete(transport.sessionId);
+    };
+    await createMcpServer().connect(transport);
+    trackRequest(session, res);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSse(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport("/messages", res);
+    sseTransports.set(transport.sessionId, transport);
+    res.on("close", () => {
+      sseTransports.delete(transport.sessionId);
+    });
+    await createMcpServer().connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const transport = sseTransports.get(url.searchParams.get("sessionId") ?? "");
+    if (!transport) {
+      sendJsonRpcError(res, 404, -32000, "Unknown SSE session");
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    try {
+      if (url.pathname === "/health" && req.method === "GET") {
+        sendJson(res, 200, {
+          status: "ok",
+          sessions: streamableSessions.size + sseTransports.size,
+        });
+        return;
+      }
+
+      if (!isAuthorized(req, options.authToken)) {
+        sendJson(res, 401, { error: "Unauthorized" }, { "WWW-Authenticate": "Bearer" });
+        return;
+      }
+
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSse(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: "Not found" });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`HTTP ${req.method} ${url.pathname} failed:`, message);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, -32603, message);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+}
@@ -5,1549 +5,703 @@
  * Provides full CRUD operations for applications, services, databases, servers, projects, and deployments
  */
 
+import { createHash, randomBytes } from "node:crypto";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  Prompt,
+  ReadResourceRequestSchema,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import { startAudit } from "./audit.js";
+import { withFreshReads } from "./cache.js";
+import { api, ApiResponse, takeVersionWarning, withAbortSignal } from "./client.js";
+import {
+  COOLIFY_CONFIRMATION_TTL_SECONDS,
+  COOLIFY_MCP_ALLOW_REVEAL,
+  COOLIFY_MCP_AUTH_TOKEN,
+  COOLIFY_MCP_HOST,
+  COOLIFY_MCP_PORT,
+  COOLIFY_MCP_SESSION_IDLE_TIMEOUT_SECONDS,
+  COOLIFY_MCP_TOOLS_DIR,
+  COOLIFY_MCP_TRANSPORT,
+  COOLIFY_MCP_WATCH,
+  CoolifyInstance,
+  currentInstance,
+  defaultInstanceName,
+  instances,
+  instanceStorage,
+  resolveInstance,
+} from "./config.js";
+import { startHttpServer } from "./http.js";
+import { formatOutput, splitOutputOptions } from "./output.js";
+import { toolPolicyViolation } from "./policy.js";
+import { redact } from "./redaction.js";
+import {
+  getTool,
+  listTools,
+  loadToolModules,
+  registerTool,
+  toMcpTool,
+  ToolContext,
+  ToolDefinition,
+} from "./registry.js";
+import { extractLogTail } from "./tools/deployments.js";
+import { builtinTools } from "./tools/index.js";
+import type { Application, Service } from "./types.js";
+import { invalidArgumentsError, validateArguments } from "./validation.js";
+import { addWatchListener, startWatcher, WatchEvent } from "./watcher.js";
 
 // ============================================================================
-// Configuration
+// Destructive Operation Confirmation
 // ============================================================================
 
-const COOLIFY_BASE_URL = process.env.COOLIFY_BASE_URL || "http://localhost:8000";
-const COOLIFY_API_TOKEN = process.env.COOLIFY_API_TOKEN || "";
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+/** JSON with sorted keys, so the same arguments always produce the same fingerprint. */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function confirmationFingerprint(name: string, args: Record<string, any>): string {
+  const payload = `${currentInstance().name}:${name}:${stableStringify(args)}`;
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+function issueConfirmationToken(name: string, args: Record<string, any>): { token: string; expiresAt: number } {
+  const now = Date.now();
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) pendingConfirmations.delete(token);
+  }
+
+  const token = randomBytes(12).toString("hex");
+  const expiresAt = now + COOLIFY_CONFIRMATION_TTL_SECONDS * 1000;
+  pendingConfirmations.set(token, { fingerprint: confirmationFingerprint(name, args), expiresAt });
+  return { token, expiresAt };
+}
+
+/** Tokens are single-use and only valid for the exact tool and arguments they were issued for. */
+function consumeConfirmationToken(name: string, args: Record<string, any>, token: string): boolean {
+  const pending = pendingConfirmations.get(token);
+  if (!pending) return false;
+  pendingConfirmations.delete(token);
+  return pending.expiresAt > Date.now() && pending.fingerprint === confirmationFingerprint(name, args);
+}
+
+async function requestConfirmation(tool: ToolDefinition, args: Record<string, any>): Promise<ApiResponse> {
+  const summary = redact(await tool.confirmation!.describe(args));
+  if (!summary.success) return summary;
+
+  const { token, expiresAt } = issueConfirmationToken(tool.name, args);
+  return {
+    success: true,
+    data: {
+      confirmation_required: true,
+      will_destroy: summary.data,
+      confirmation_token: token,
+      expires_at: new Date(expiresAt).toISOString(),
+      next_step: `Call ${tool.name} again with the same arguments and confirmation_token to proceed`,
+    },
+  };
+}
 
 // ============================================================================
-// API Client
+// Tool Handlers
 // ============================================================================
 
-interface ApiResponse<T = any> {
+interface ToolOutput {
   success: boolean;
-  data?: T;
-  error?: string;
-  status?: number;
+  text: string;
+  structuredContent?: Record<string, unknown>;
 }
 
-async function coolifyRequest<T = any>(
-  endpoint: string,
-  method: string = "GET",
-  body?: any
-): Promise<ApiResponse<T>> {
-  const url = `${COOLIFY_BASE_URL}/api/v1${endpoint}`;
-
-  try {
-    const options: RequestInit = {
-      method,
-      headers: {
-        Authorization: `Bearer ${COOLIFY_API_TOKEN}`,
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-    };
+async function handleToolCall(
+  name: string,
+  args: Record<string, any>,
+  context: ToolContext = {}
+): Promise<ToolOutput> {
+  const tool = getTool(name);
+  if (!tool) {
+    return { success: false, text: JSON.stringify({ error: `Unknown tool: ${name}` }) };
+  }
 
-    if (body && method !== "GET") {
-      options.body = JSON.stringify(body);
-    }
+  const violation = toolPolicyViolation(tool);
+  if (violation) {
+    throw new Error(violation);
+  }
+  if (context.revealSecrets && !COOLIFY_MCP_ALLOW_REVEAL) {
+    throw new Error("reveal_secrets is not allowed; set COOLIFY_MCP_ALLOW_REVEAL=true to enable it");
+  }
 
-    const response = await fetch(url, options);
-    const data: any = await response.json().catch(() => null);
+  const issues = validateArguments(tool.inputSchema, args);
+  if (issues.length > 0) {
+    throw invalidArgumentsError(name, issues);
+  }
 
-    if (!response.ok) {
-      const errorMessage = data && typeof data === 'object' && 'message' in data 
-        ? String(data.message) 
-        : `HTTP ${response.status}: ${response.statusText}`;
-      return {
-        success: false,
-        error: errorMessage,
-        status: response.status,
-      };
+  if (tool.confirmation?.required(args)) {
+    const { confirmation_token, ...targetArgs } = args;
+    if (confirmation_token === undefined) {
+      const response = await requestConfirmation(tool, targetArgs);
+      return { success: response.success, text: JSON.stringify(response, null, 2) };
+    }
+    if (!consumeConfirmationToken(name, targetArgs, String(confirmation_token))) {
+      throw new Error("Confirmation token is invalid, expired or was issued for different arguments");
     }
+    args = targetArgs;
+  }
 
-    return { success: true, data: data as T, status: response.status };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-    };
+  if (tool.output) {
+    const split = splitOutputOptions(tool.output, args);
+    const result = await tool.handler(split.args, context);
+    const output = await formatOutput(context.revealSecrets ? result : redact(result), tool.output, split.options);
+    return { success: result.success, ...output };
   }
+
+  const result = await tool.handler(args, context);
+  return { success: result.success, text: JSON.stringify(context.revealSecrets ? result : redact(result), null, 2) };
 }
 
 // ============================================================================
-// Tool Definitions
+// Resources
 // ============================================================================
 
-const tools: Tool[] = [
-  // -------------------------------------------------------------------------
-  // Health & System
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_health",
-    description: "Check the health status of the Coolify instance",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
-  {
-    name: "coolify_version",
-    description: "Get the current Coolify version",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
-  {
-    name: "coolify_enable_api",
-    description: "Enable the Coolify API (requires root access)",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
+interface ResourceKind {
+  kind: string;
+  label: string;
+  list: () => Promise<ApiResponse<{ uuid: string; name?: string; status?: string }[]>>;
+  get: (uuid: string) => Promise<ApiResponse>;
+}
 
-  // -------------------------------------------------------------------------
-  // Teams
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_list_teams",
-    description: "List all teams accessible to the authenticated user",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
-  {
-    name: "coolify_get_current_team",
-    description: "Get the current team for the API token",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
-  {
-    name: "coolify_get_team_members",
-    description: "Get members of the current team",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
+const RESOURCE_KINDS: ResourceKind[] = [
+  { kind: "applications", label: "Application", list: api.listApplications, get: api.getApplication },
+  { kind: "databases", label: "Database", list: api.listDatabases, get: api.getDatabase },
+  { kind: "services", label: "Service", list: api.listServices, get: api.getService },
+  { kind: "servers", label: "Server", list: api.listServers, get: (uuid) => api.getServer(uuid) },
+  { kind: "projects", label: "Project", list: api.listProjects, get: api.getProject },
+];
 
-  // -------------------------------------------------------------------------
-  // Projects
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_list_projects",
-    description: "List all projects",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
-  {
-    name: "coolify_get_project",
-    description: "Get a specific project by UUID",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Project UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_create_project",
-    description: "Create a new project",
-    inputSchema: {
-      type: "object",
-      properties: {
-        name: { type: "string", description: "Project name" },
-        description: { type: "string", description: "Project description" },
-      },
-      required: ["name"],
-    },
-  },
-  {
-    name: "coolify_update_project",
-    description: "Update an existing project",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Project UUID" },
-        name: { type: "string", description: "New project name" },
-        description: { type: "string", description: "New project description" },
-      },
-      required: ["uuid"],
-    },
-  },
+const resourceTemplates: ResourceTemplate[] = [
+  ...RESOURCE_KINDS.map(({ kind, label }) => ({
+    uriTemplate: `coolify://${kind}/{uuid}`,
+    name: `${label} by UUID`,
+    description: `Configuration and status of a Coolify ${label.toLowerCase()}`,
+    mimeType: "application/json",
+  })),
   {
-    name: "coolify_delete_project",
-    description: "Delete a project",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Project UUID" },
-      },
-      required: ["uuid"],
-    },
+    uriTemplate: "coolify://deployments/{uuid}/logs",
+    name: "Deployment logs",
+    description: "Build log of a deployment",
+    mimeType: "text/plain",
   },
+];
 
-  // -------------------------------------------------------------------------
-  // Environments
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_get_project_environment",
-    description: "Get a specific environment within a project",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-      },
-      required: ["project_uuid", "environment_name"],
-    },
-  },
-  {
-    name: "coolify_create_environment",
-    description: "Create a new environment in a project",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        name: { type: "string", description: "Environment name" },
-        description: { type: "string", description: "Environment description" },
-      },
-      required: ["project_uuid", "name"],
-    },
-  },
-  {
-    name: "coolify_delete_environment",
-    description: "Delete an environment from a project",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-      },
-      required: ["project_uuid", "environment_name"],
-    },
-  },
+/** Non-default instances are addressed with an `?instance=` suffix on the URI. */
+function instanceQuery(instance: CoolifyInstance): string {
+  return instance.name === defaultInstanceName ? "" : `?instance=${encodeURIComponent(instance.name)}`;
+}
 
-  // -------------------------------------------------------------------------
-  // Servers
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_list_servers",
-    description: "List all servers",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
-  {
-    name: "coolify_get_server",
-    description: "Get a specific server by UUID",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Server UUID" },
-        include_resources: { type: "boolean", description: "Include deployed resources" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_create_server",
-    description: "Create/add a new server",
-    inputSchema: {
-      type: "object",
-      properties: {
-        name: { type: "string", description: "Server name" },
-        description: { type: "string", description: "Server description" },
-        ip: { type: "string", description: "Server IP address" },
-        port: { type: "number", description: "SSH port (default: 22)" },
-        user: { type: "string", description: "SSH user (default: root)" },
-        private_key_uuid: { type: "string", description: "UUID of the private key for SSH" },
-        is_build_server: { type: "boolean", description: "Use as build server" },
-        instant_validate: { type: "boolean", description: "Validate server immediately" },
-      },
-      required: ["name", "ip", "private_key_uuid"],
-    },
-  },
-  {
-    name: "coolify_update_server",
-    description: "Update an existing server",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Server UUID" },
-        name: { type: "string", description: "Server name" },
-        description: { type: "string", description: "Server description" },
-        ip: { type: "string", description: "Server IP address" },
-        port: { type: "number", description: "SSH port" },
-        user: { type: "string", description: "SSH user" },
-        private_key_uuid: { type: "string", description: "Private key UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_delete_server",
-    description: "Delete a server",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Server UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_validate_server",
-    description: "Validate server connectivity and Docker prerequisites",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Server UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_get_server_resources",
-    description: "Get all resources (apps, databases, services) on a server",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Server UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_get_server_domains",
-    description: "Get all domain-to-IP mappings for a server",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Server UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
+async function listInstanceResources(instance: CoolifyInstance): Promise<Resource[]> {
+  const prefix = instances.size > 1 ? `[${instance.name}] ` : "";
+  const lists = await Promise.all(
+    RESOURCE_KINDS.map(async ({ kind, label, list }) => {
+      const response = await list();
+      if (!response.success) return [];
+      return response.data!.map((item) => ({
+        uri: `coolify://${kind}/${item.uuid}${instanceQuery(instance)}`,
+        name: `${prefix}${item.name ?? item.uuid}`,
+        description: item.status ? `${label} (${item.status})` : label,
+        mimeType: "application/json",
+      }));
+    })
+  );
+  return lists.flat();
+}
 
-  // -------------------------------------------------------------------------
-  // GitHub Apps (Sources)
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_list_github_apps",
-    description: "List all GitHub Apps configured in Coolify (needed to get github_app_uuid for private repo deployments)",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
-  {
-    name: "coolify_list_github_app_repositories",
-    description: "List all repositories accessible by a GitHub App. Use the numeric 'id' from coolify_list_github_apps, not the uuid.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        id: { type: "number", description: "GitHub App numeric ID (from coolify_list_github_apps response)" },
-      },
-      required: ["id"],
-    },
-  },
+async function listResources(): Promise<Resource[]> {
+  const lists = await Promise.all(
+    [...instances.values()].map((instance) =>
+      instanceStorage.run(instance, () => listInstanceResources(instance))
+    )
+  );
+  return lists.flat();
+}
 
-  // -------------------------------------------------------------------------
-  // Private Keys (Security)
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_list_private_keys",
-    description: "List all private SSH keys",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
-  {
-    name: "coolify_get_private_key",
-    description: "Get a specific private key by UUID",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Private key UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_create_private_key",
-    description: "Create a new private SSH key",
-    inputSchema: {
-      type: "object",
-      properties: {
-        name: { type: "string", description: "Key name" },
-        description: { type: "string", description: "Key description" },
-        private_key: { type: "string", description: "The private key content" },
-      },
-      required: ["name", "private_key"],
-    },
-  },
-  {
-    name: "coolify_update_private_key",
-    description: "Update a private key",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Private key UUID" },
-        name: { type: "string", description: "Key name" },
-        description: { type: "string", description: "Key description" },
-        private_key: { type: "string", description: "The private key content" },
-      },
-      required: ["uuid"],
-    },
+async function readResource(uri: string): Promise<ReadResourceResult["contents"]> {
+  const match = /^coolify:\/\/([a-z]+)\/([^/?]+)(\/logs)?(?:\?instance=([^&]+))?$/.exec(uri);
+  const isLogs = Boolean(match?.[3]);
+  const get = isLogs
+    ? match?.[1] === "deployments" && api.getDeployment
+    : RESOURCE_KINDS.find((k) => k.kind === match?.[1])?.get;
+  if (!match || !get) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+  }
+
+  const [, , uuid, , instanceName] = match;
+  const instance = resolveInstance(instanceName && decodeURIComponent(instanceName));
+  const response: ApiResponse<any> = await instanceStorage.run(instance, () => get(uuid));
+  if (!response.success) {
+    throw new McpError(ErrorCode.InvalidParams, `Failed to read ${uri}: ${response.error}`);
+  }
+
+  if (isLogs) {
+    return [{ uri, mimeType: "text/plain", text: redact(extractLogTail(response.data?.logs, Infinity).join("\n")) }];
+  }
+  return [{ uri, mimeType: "application/json", text: JSON.stringify(redact(response.data), null, 2) }];
+}
+
+// ============================================================================
+// Prompts
+// ============================================================================
+
+const instanceArgument = {
+  name: "instance",
+  description: "Coolify instance to use (default instance when omitted)",
+  required: false,
+};
+
+const prompts: Prompt[] = [
+  {
+    name: "diagnose_application",
+    title: "Diagnose a failing application",
+    description: "Investigate why an application is down or misbehaving, using its config, recent deployments and logs",
+    arguments: [
+      { name: "application_uuid", description: "Application UUID", required: true },
+      instanceArgument,
+    ],
+  },
+  {
+    name: "rollout_application",
+    title: "Roll out a new version of an application",
+    description: "Deploy a new version of an application step by step and verify it came up healthy",
+    arguments: [
+      { name: "application_uuid", description: "Application UUID", required: true },
+      { name: "commit", description: "Commit SHA to deploy (latest on the configured branch when omitted)", required: false },
+      instanceArgument,
+    ],
+  },
+  {
+    name: "audit_project_envs",
+    title: "Audit the environment variables of a project",
+    description: "Review the environment variables of every application and service in a project environment",
+    arguments: [
+      { name: "project_uuid", description: "Project UUID", required: true },
+      { name: "environment_name", description: "Environment name (default: production)", required: false },
+      instanceArgument,
+    ],
   },
-  {
-    name: "coolify_delete_private_key",
-    description: "Delete a private key",
+];
+
+function contextSection(title: string, response: ApiResponse): string {
+  const body = response.success
+    ? `\`\`\`json\n${JSON.stringify(redact(response.data), null, 2)}\n\`\`\``
+    : `(could not be loaded: ${response.error})`;
+  return `## ${title}\n\n${body}`;
+}
+
+/** Env var keys and flags only; values never end up in prompt context. */
+function envKeySummary(response: ApiResponse): ApiResponse {
+  if (!response.success || !Array.isArray(response.data)) return response;
+  return {
+    success: true,
+    data: response.data.map((env: any) => ({
+      key: env.key,
+      is_buildtime: env.is_buildtime,
+      is_runtime: env.is_runtime,
+      is_preview: env.is_preview,
+      is_literal: env.is_literal,
+      has_value: env.value !== null && env.value !== undefined && env.value !== "",
+    })),
+  };
+}
+
+function promptResult(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+/** Rejects unknown prompts and missing or blank required arguments before anything is fetched. */
+function checkPromptArguments(name: string, args: Record<string, string>): void {
+  const prompt = prompts.find((p) => p.name === name);
+  if (!prompt) throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  const missing = (prompt.arguments ?? [])
+    .filter((argument) => argument.required && !args[argument.name]?.trim())
+    .map((argument) => ({ field: argument.name, message: "is required" }));
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for prompt ${name}: ${missing.map((issue) => `${issue.field} ${issue.message}`).join("; ")}`,
+      { prompt: name, issues: missing }
+    );
+  }
+}
+
+async function buildPrompt(name: string, args: Record<string, string>): Promise<GetPromptResult> {
+  checkPromptArguments(name, args);
+  switch (name) {
+    case "diagnose_application": {
+      const uuid = args.application_uuid;
+      const [app, deployments, logs] = await Promise.all([
+        api.getApplication(uuid),
+        api.listApplicationDeployments(uuid, { take: 5 }),
+        api.getApplicationLogs(uuid, { tail: 100 }),
+      ]);
+      return promptResult(
+        `Diagnose application ${uuid}`,
+        [
+          `Application ${uuid} on Coolify is failing or misbehaving. Find the root cause and propose a fix.`,
+          "",
+          "Work through these steps, using the coolify_* tools for anything not included below:",
+          "1. Check the application status and configuration (build pack, ports, domains, health check, resource limits).",
+          "2. Look at the recent deployments. If the latest one failed, read its log with coolify_get_deployment.",
+          "3. Read the runtime logs and look for crashes, stack traces or repeated errors.",
+          "4. Check the environment variable keys with coolify_list_application_envs for anything missing.",
+          "5. Summarize the root cause, the evidence, and the exact change you recommend. Ask before changing anything.",
+          "",
+          contextSection("Application configuration", app),
+          "",
+          contextSection("Recent deployments", deployments),
+          "",
+          contextSection("Recent logs (last 100 lines)", logs),
+        ].join("\n")
+      );
+    }
+
+    case "rollout_application": {
+      const uuid = args.application_uuid;
+      const [app, deployments] = await Promise.all([
+        api.getApplication(uuid),
+        api.listApplicationDeployments(uuid, { take: 5 }),
+      ]);
+      const target = args.commit ? `commit ${args.commit}` : "the latest commit on the configured branch";
+      return promptResult(
+        `Roll out ${target} to application ${uuid}`,
+        [
+          `Roll out ${target} to application ${uuid}.`,
+          "",
+          "Follow these steps and report after each one:",
+          "1. Confirm the application is currently healthy and note the commit of the last successful deployment below, so it can be restored.",
+          `2. Start the deployment with coolify_start_application${args.commit ? ` using commit "${args.commit}"` : ""}.`,
+          "3. Wait for it with coolify_wait_for_deployment using the returned deployment UUID.",
+          "4. If it finished, check the application status and the last lines of coolify_get_application_logs for errors.",
+          "5. If it failed or the application is unhealthy, show the relevant build log lines and ask whether to roll back with coolify_rollback_application.",
+          "",
+          contextSection("Application configuration", app),
+          "",
+          contextSection("Recent deployments", deployments),
+        ].join("\n")
+      );
+    }
+
+    case "audit_project_envs": {
+      const projectUuid = args.project_uuid;
+      const environmentName = args.environment_name || "production";
+      const environment = await api.getEnvironment(projectUuid, environmentName);
+      const apps: Application[] = environment.data?.applications ?? [];
+      const services: Service[] = environment.data?.services ?? [];
+      const [appEnvs, serviceEnvs] = await Promise.all([
+        Promise.all(apps.map((app) => api.listEnvs("application", app.uuid))),
+        Promise.all(services.map((service) => api.listEnvs("service", service.uuid))),
+      ]);
+
+      const sections = [
+        ...apps.map((app, i) => contextSection(`Application ${app.name} (${app.uuid})`, envKeySummary(appEnvs[i]))),
+        ...services.map((service, i) =>
+          contextSection(`Service ${service.name} (${service.uuid})`, envKeySummary(serviceEnvs[i]))
+        ),
+      ];
+      if (!environment.success) {
+        sections.push(contextSection(`Environment ${environmentName}`, environment));
+      }
+
+      return promptResult(
+        `Audit environment variables of project ${projectUuid} (${environmentName})`,
+        [
+          `Audit the environment variables of the "${environmentName}" environment in project ${projectUuid}.`,
+          "Values are not included below; only fetch one when you need it to confirm a finding.",
+          "",
+          "Report on:",
+          "1. Keys defined in some resources but missing from others that likely need them (e.g. DATABASE_URL, APP_KEY).",
+          "2. Keys that are set but empty.",
+          "3. Secrets (passwords, tokens, keys) that are available at build time when they only need to be available at runtime.",
+          "4. Inconsistent naming of what looks like the same setting.",
+          "5. Variables applied to preview deployments that should not be.",
+          "End with a prioritized list of suggested changes. Do not change anything without asking.",
+          "",
+          sections.length > 0
+            ? sections.join("\n\n")
+            : "(no applications or services found in this environment)",
+        ].join("\n")
+      );
+    }
+
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+}
+
+// ============================================================================
+// Server Setup
+// ============================================================================
+
+/** With COOLIFY_MCP_ALLOW_REVEAL, every tool accepts `reveal_secrets` to skip redaction for that call. */
+function withRevealArgument(tool: Tool): Tool {
+  if (!COOLIFY_MCP_ALLOW_REVEAL) return tool;
+  return {
+    ...tool,
     inputSchema: {
-      type: "object",
+      ...tool.inputSchema,
       properties: {
-        uuid: { type: "string", description: "Private key UUID" },
+        ...tool.inputSchema.properties,
+        reveal_secrets: {
+          type: "boolean",
+          description: "Return secrets (passwords, private keys, secret env values) unredacted. Only use when the value itself is needed",
+        },
       },
-      required: ["uuid"],
     },
-  },
+  };
+}
 
-  // -------------------------------------------------------------------------
-  // Applications
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_list_applications",
-    description: "List all applications",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
-  {
-    name: "coolify_get_application",
-    description: "Get a specific application by UUID",
+/** Read-only tools accept `fresh` to skip the response cache for that call. */
+function withFreshArgument(tool: Tool): Tool {
+  if (!tool.annotations?.readOnlyHint) return tool;
+  return {
+    ...tool,
     inputSchema: {
-      type: "object",
+      ...tool.inputSchema,
       properties: {
-        uuid: { type: "string", description: "Application UUID" },
+        ...tool.inputSchema.properties,
+        fresh: { type: "boolean", description: "Fetch from Coolify instead of returning a cached response" },
       },
-      required: ["uuid"],
     },
-  },
-  {
-    name: "coolify_create_application_public",
-    description: "Create an application from a public Git repository",
+  };
+}
+
+/** Every tool accepts an optional `instance` argument selecting the Coolify instance to use. */
+function withInstanceArgument(tool: Tool): Tool {
+  if (tool.name === "coolify_list_instances") return tool;
+  return {
+    ...tool,
     inputSchema: {
-      type: "object",
+      ...tool.inputSchema,
       properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        git_repository: { type: "string", description: "Git repository URL" },
-        git_branch: { type: "string", description: "Git branch" },
-        build_pack: {
+        ...tool.inputSchema.properties,
+        instance: {
           type: "string",
-          enum: ["nixpacks", "static", "dockerfile", "dockercompose"],
-          description: "Build pack to use",
+          enum: [...instances.keys()],
+          description: `Coolify instance to use (default: ${defaultInstanceName})`,
         },
-        ports_exposes: { type: "string", description: "Ports to expose (e.g., '3000' or '3000,8080')" },
-        name: { type: "string", description: "Application name" },
-        description: { type: "string", description: "Application description" },
-        domains: { type: "string", description: "Custom domains (comma-separated)" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately after creation" },
-        destination_uuid: { type: "string", description: "Destination UUID (if server has multiple)" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name", "git_repository", "git_branch", "build_pack", "ports_exposes"],
-    },
-  },
-  {
-    name: "coolify_create_application_private_github",
-    description: "Create an application from a private GitHub repository using GitHub App",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        github_app_uuid: { type: "string", description: "GitHub App UUID" },
-        git_repository: { type: "string", description: "Git repository URL" },
-        git_branch: { type: "string", description: "Git branch" },
-        build_pack: { type: "string", description: "Build pack to use" },
-        ports_exposes: { type: "string", description: "Ports to expose" },
-        name: { type: "string", description: "Application name" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name", "github_app_uuid", "git_repository", "git_branch", "build_pack", "ports_exposes"],
-    },
-  },
-  {
-    name: "coolify_create_application_private_deploy_key",
-    description: "Create an application from a private repository using SSH deploy key",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        private_key_uuid: { type: "string", description: "SSH private key UUID" },
-        git_repository: { type: "string", description: "Git repository URL (SSH format)" },
-        git_branch: { type: "string", description: "Git branch" },
-        build_pack: { type: "string", description: "Build pack to use" },
-        ports_exposes: { type: "string", description: "Ports to expose" },
-        name: { type: "string", description: "Application name" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name", "private_key_uuid", "git_repository", "git_branch", "build_pack", "ports_exposes"],
-    },
-  },
-  {
-    name: "coolify_create_application_dockerfile",
-    description: "Create an application from a Dockerfile",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        git_repository: { type: "string", description: "Git repository URL" },
-        git_branch: { type: "string", description: "Git branch" },
-        dockerfile: { type: "string", description: "Dockerfile content (base64 encoded)" },
-        ports_exposes: { type: "string", description: "Ports to expose" },
-        name: { type: "string", description: "Application name" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name", "ports_exposes"],
-    },
-  },
-  {
-    name: "coolify_create_application_docker_image",
-    description: "Create an application from a Docker image",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        docker_registry_image_name: { type: "string", description: "Docker image name (e.g., nginx:alpine)" },
-        docker_registry_image_tag: { type: "string", description: "Image tag (default: latest)" },
-        ports_exposes: { type: "string", description: "Ports to expose" },
-        name: { type: "string", description: "Application name" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
       },
-      required: ["project_uuid", "server_uuid", "environment_name", "docker_registry_image_name", "ports_exposes"],
     },
-  },
-  {
-    name: "coolify_create_application_docker_compose",
-    description: "Create an application from Docker Compose",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        docker_compose_raw: { type: "string", description: "Docker Compose content (base64 encoded)" },
-        name: { type: "string", description: "Application name" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name", "docker_compose_raw"],
+  };
+}
+
+for (const tool of builtinTools) {
+  registerTool(tool);
+}
+
+// ============================================================================
+// Change Notifications
+// ============================================================================
+
+/** URIs a watcher event touches: the resource itself and, for deployment events, the deployment log. */
+function watchEventUris(event: WatchEvent): string[] {
+  const query = instanceQuery(resolveInstance(event.instance));
+  const uris = [`coolify://${event.kind}/${event.uuid}${query}`];
+  if (event.deployment_uuid) uris.push(`coolify://deployments/${event.deployment_uuid}/logs${query}`);
+  return uris;
+}
+
+/**
+ * Forwards watcher events to the client as log messages (logger "coolify-watcher"),
+ * and as resource updates for the URIs it subscribed to. Stops when the session closes.
+ */
+function forwardWatchEvents(server: Server): void {
+  const subscriptions = new Set<string>();
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const notify = async (event: WatchEvent) => {
+    await server.sendLoggingMessage({ level: event.level, logger: "coolify-watcher", data: event }, server.transport?.sessionId);
+    for (const uri of watchEventUris(event)) {
+      if (subscriptions.has(uri)) await server.sendResourceUpdated({ uri });
+    }
+  };
+  const removeListener = addWatchListener((event) => {
+    // Sessions that are not connected yet (or any more) simply miss the event
+    notify(event).catch(() => {});
+  });
+  server.onclose = () => removeListener();
+}
+
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "coolify-mcp",
+      version: "1.0.0",
     },
-  },
-  {
-    name: "coolify_update_application",
-    description: "Update an existing application",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Application UUID" },
-        name: { type: "string", description: "Application name" },
-        description: { type: "string", description: "Application description" },
-        domains: { type: "string", description: "Custom domains" },
-        git_repository: { type: "string", description: "Git repository URL" },
-        git_branch: { type: "string", description: "Git branch" },
-        git_commit_sha: { type: "string", description: "Specific commit SHA" },
-        build_pack: { type: "string", description: "Build pack" },
-        ports_exposes: { type: "string", description: "Exposed ports" },
-        ports_mappings: { type: "string", description: "Port mappings" },
-        install_command: { type: "string", description: "Install command" },
-        build_command: { type: "string", description: "Build command" },
-        start_command: { type: "string", description: "Start command" },
-        base_directory: { type: "string", description: "Base directory" },
-        publish_directory: { type: "string", description: "Publish directory" },
-        health_check_enabled: { type: "boolean", description: "Enable health checks" },
-        health_check_path: { type: "string", description: "Health check path" },
-        health_check_interval: { type: "number", description: "Health check interval (seconds)" },
-        limits_memory: { type: "string", description: "Memory limit (e.g., 512m)" },
-        limits_cpus: { type: "string", description: "CPU limit" },
+    {
+      capabilities: {
+        tools: {},
+        resources: COOLIFY_MCP_WATCH ? { subscribe: true } : {},
+        prompts: {},
+        logging: {},
       },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_delete_application",
-    description: "Delete an application",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Application UUID" },
-        delete_configurations: { type: "boolean", description: "Delete configuration files" },
-        delete_volumes: { type: "boolean", description: "Delete associated volumes" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_start_application",
-    description: "Start/deploy an application",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Application UUID" },
-        force: { type: "boolean", description: "Force rebuild without cache" },
-        commit: { type: "string", description: "Specific commit SHA to deploy" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_stop_application",
-    description: "Stop an application",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Application UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_restart_application",
-    description: "Restart an application",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Application UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_get_application_logs",
-    description: "Get application logs",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Application UUID" },
-        tail: { type: "number", description: "Number of lines to retrieve (default: 1000)" },
-        since: { type: "string", description: "Show logs since timestamp (ISO 8601)" },
-      },
-      required: ["uuid"],
-    },
-  },
-
-  // -------------------------------------------------------------------------
-  // Application Environment Variables
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_list_application_envs",
-    description: "List environment variables for an application",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Application UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_create_application_env",
-    description: "Create an environment variable for an application",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Application UUID" },
-        key: { type: "string", description: "Variable name" },
-        value: { type: "string", description: "Variable value" },
-        is_buildtime: { type: "boolean", description: "Available during build" },
-        is_runtime: { type: "boolean", description: "Available at runtime" },
-        is_preview: { type: "boolean", description: "Apply to preview deployments" },
-      },
-      required: ["uuid", "key", "value"],
-    },
-  },
-  {
-    name: "coolify_update_application_env",
-    description: "Update an environment variable",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Application UUID" },
-        env_uuid: { type: "string", description: "Environment variable UUID" },
-        key: { type: "string", description: "Variable name" },
-        value: { type: "string", description: "Variable value" },
-        is_buildtime: { type: "boolean", description: "Available during build" },
-        is_runtime: { type: "boolean", description: "Available at runtime" },
-        is_preview: { type: "boolean", description: "Apply to preview deployments" },
-      },
-      required: ["uuid", "env_uuid"],
-    },
-  },
-  {
-    name: "coolify_delete_application_env",
-    description: "Delete an environment variable",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Application UUID" },
-        env_uuid: { type: "string", description: "Environment variable UUID" },
-      },
-      required: ["uuid", "env_uuid"],
-    },
-  },
-  {
-    name: "coolify_bulk_update_application_envs",
-    description: "Bulk create/update environment variables for an application",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Application UUID" },
-        variables: {
-          type: "array",
-          description: "Array of environment variables",
-          items: {
-            type: "object",
-            properties: {
-              key: { type: "string" },
-              value: { type: "string" },
-              is_buildtime: { type: "boolean" },
-              is_runtime: { type: "boolean" },
-              is_preview: { type: "boolean" },
-            },
-            required: ["key", "value"],
-          },
-        },
-      },
-      required: ["uuid", "variables"],
-    },
-  },
-
-  // -------------------------------------------------------------------------
-  // Databases
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_list_databases",
-    description: "List all databases",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
-  {
-    name: "coolify_get_database",
-    description: "Get a specific database by UUID",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Database UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_create_database_postgresql",
-    description: "Create a PostgreSQL database",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        name: { type: "string", description: "Database name" },
-        description: { type: "string", description: "Description" },
-        image: { type: "string", description: "Docker image (default: postgres:16-alpine)" },
-        postgres_user: { type: "string", description: "PostgreSQL user" },
-        postgres_password: { type: "string", description: "PostgreSQL password" },
-        postgres_db: { type: "string", description: "Database name" },
-        public_port: { type: "number", description: "Public port to expose" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-        limits_memory: { type: "string", description: "Memory limit" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name"],
-    },
-  },
-  {
-    name: "coolify_create_database_mysql",
-    description: "Create a MySQL database",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        name: { type: "string", description: "Database name" },
-        image: { type: "string", description: "Docker image (default: mysql:8.0)" },
-        mysql_user: { type: "string", description: "MySQL user" },
-        mysql_password: { type: "string", description: "MySQL password" },
-        mysql_database: { type: "string", description: "Database name" },
-        mysql_root_password: { type: "string", description: "Root password" },
-        public_port: { type: "number", description: "Public port" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name"],
-    },
-  },
-  {
-    name: "coolify_create_database_mariadb",
-    description: "Create a MariaDB database",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        name: { type: "string", description: "Database name" },
-        image: { type: "string", description: "Docker image (default: mariadb:11)" },
-        mariadb_user: { type: "string", description: "MariaDB user" },
-        mariadb_password: { type: "string", description: "MariaDB password" },
-        mariadb_database: { type: "string", description: "Database name" },
-        mariadb_root_password: { type: "string", description: "Root password" },
-        public_port: { type: "number", description: "Public port" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name"],
-    },
-  },
-  {
-    name: "coolify_create_database_mongodb",
-    description: "Create a MongoDB database",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        name: { type: "string", description: "Database name" },
-        image: { type: "string", description: "Docker image (default: mongo:7)" },
-        mongo_initdb_root_username: { type: "string", description: "Root username" },
-        mongo_initdb_root_password: { type: "string", description: "Root password" },
-        mongo_initdb_database: { type: "string", description: "Initial database" },
-        public_port: { type: "number", description: "Public port" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name"],
-    },
-  },
-  {
-    name: "coolify_create_database_redis",
-    description: "Create a Redis database",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        name: { type: "string", description: "Database name" },
-        image: { type: "string", description: "Docker image (default: redis:7-alpine)" },
-        redis_password: { type: "string", description: "Redis password" },
-        redis_conf: { type: "string", description: "Custom redis.conf content" },
-        public_port: { type: "number", description: "Public port" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name"],
-    },
-  },
-  {
-    name: "coolify_create_database_clickhouse",
-    description: "Create a ClickHouse database",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        name: { type: "string", description: "Database name" },
-        image: { type: "string", description: "Docker image" },
-        clickhouse_admin_user: { type: "string", description: "Admin username" },
-        clickhouse_admin_password: { type: "string", description: "Admin password" },
-        public_port: { type: "number", description: "Public port" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name"],
-    },
-  },
-  {
-    name: "coolify_create_database_dragonfly",
-    description: "Create a DragonFly database (Redis-compatible)",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        name: { type: "string", description: "Database name" },
-        image: { type: "string", description: "Docker image" },
-        dragonfly_password: { type: "string", description: "Password" },
-        public_port: { type: "number", description: "Public port" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name"],
-    },
-  },
-  {
-    name: "coolify_create_database_keydb",
-    description: "Create a KeyDB database (Redis-compatible)",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        name: { type: "string", description: "Database name" },
-        image: { type: "string", description: "Docker image" },
-        keydb_password: { type: "string", description: "Password" },
-        keydb_conf: { type: "string", description: "Custom keydb.conf content" },
-        public_port: { type: "number", description: "Public port" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name"],
-    },
-  },
-  {
-    name: "coolify_update_database",
-    description: "Update a database configuration",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Database UUID" },
-        name: { type: "string", description: "Database name" },
-        description: { type: "string", description: "Description" },
-        image: { type: "string", description: "Docker image" },
-        public_port: { type: "number", description: "Public port" },
-        limits_memory: { type: "string", description: "Memory limit" },
-        limits_cpus: { type: "string", description: "CPU limit" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_delete_database",
-    description: "Delete a database",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Database UUID" },
-        delete_configurations: { type: "boolean", description: "Delete configuration files" },
-        delete_volumes: { type: "boolean", description: "Delete associated volumes" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_start_database",
-    description: "Start a database",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Database UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_stop_database",
-    description: "Stop a database",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Database UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_restart_database",
-    description: "Restart a database",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Database UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-
-  // -------------------------------------------------------------------------
-  // Services
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_list_services",
-    description: "List all services",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
-  {
-    name: "coolify_get_service",
-    description: "Get a specific service by UUID",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Service UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_create_service",
-    description: "Create a new service (from template or docker-compose)",
-    inputSchema: {
-      type: "object",
-      properties: {
-        project_uuid: { type: "string", description: "Project UUID" },
-        server_uuid: { type: "string", description: "Server UUID" },
-        environment_name: { type: "string", description: "Environment name" },
-        type: { type: "string", description: "Service type/template name (e.g., 'plausible', 'supabase')" },
-        name: { type: "string", description: "Service name" },
-        description: { type: "string", description: "Service description" },
-        docker_compose_raw: { type: "string", description: "Custom docker-compose content (base64 encoded)" },
-        instant_deploy: { type: "boolean", description: "Deploy immediately" },
-      },
-      required: ["project_uuid", "server_uuid", "environment_name"],
-    },
-  },
-  {
-    name: "coolify_update_service",
-    description: "Update a service",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Service UUID" },
-        name: { type: "string", description: "Service name" },
-        description: { type: "string", description: "Description" },
-        docker_compose_raw: { type: "string", description: "Docker compose content (base64)" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_delete_service",
-    description: "Delete a service",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Service UUID" },
-        delete_configurations: { type: "boolean", description: "Delete configuration files" },
-        delete_volumes: { type: "boolean", description: "Delete associated volumes" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_start_service",
-    description: "Start a service",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Service UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_stop_service",
-    description: "Stop a service",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Service UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_restart_service",
-    description: "Restart a service",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Service UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-
-  // -------------------------------------------------------------------------
-  // Service Environment Variables
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_list_service_envs",
-    description: "List environment variables for a service",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Service UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_create_service_env",
-    description: "Create an environment variable for a service",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Service UUID" },
-        key: { type: "string", description: "Variable name" },
-        value: { type: "string", description: "Variable value" },
-      },
-      required: ["uuid", "key", "value"],
-    },
-  },
-  {
-    name: "coolify_update_service_env",
-    description: "Update a service environment variable",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Service UUID" },
-        env_uuid: { type: "string", description: "Environment variable UUID" },
-        key: { type: "string", description: "Variable name" },
-        value: { type: "string", description: "Variable value" },
-      },
-      required: ["uuid", "env_uuid"],
-    },
-  },
-  {
-    name: "coolify_delete_service_env",
-    description: "Delete a service environment variable",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Service UUID" },
-        env_uuid: { type: "string", description: "Environment variable UUID" },
-      },
-      required: ["uuid", "env_uuid"],
-    },
-  },
-
-  // -------------------------------------------------------------------------
-  // Deployments
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_deploy",
-    description: "Deploy resources by UUID or tag",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Resource UUID(s), comma-separated" },
-        tag: { type: "string", description: "Tag name(s), comma-separated" },
-        force: { type: "boolean", description: "Force rebuild without cache" },
-        pr: { type: "number", description: "Pull request ID for preview deployment" },
-      },
-      required: [],
-    },
-  },
-  {
-    name: "coolify_list_deployments",
-    description: "List deployments for an application",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Application UUID" },
-        skip: { type: "number", description: "Number of records to skip" },
-        take: { type: "number", description: "Number of records to take" },
-      },
-      required: ["uuid"],
-    },
-  },
-  {
-    name: "coolify_get_deployment",
-    description: "Get a specific deployment by UUID",
-    inputSchema: {
-      type: "object",
-      properties: {
-        uuid: { type: "string", description: "Deployment UUID" },
-      },
-      required: ["uuid"],
-    },
-  },
-
-  // -------------------------------------------------------------------------
-  // Resources (Generic)
-  // -------------------------------------------------------------------------
-  {
-    name: "coolify_list_resources",
-    description: "List all resources (applications, databases, services)",
-    inputSchema: { type: "object", properties: {}, required: [] },
-  },
-];
-
-// ============================================================================
-// Tool Handlers
-// ============================================================================
-
-async function handleToolCall(name: string, args: Record<string, any>): Promise<string> {
-  let result: ApiResponse;
-
-  switch (name) {
-    // Health & System
-    case "coolify_health":
-      result = await coolifyRequest("/health");
-      break;
-    case "coolify_version":
-      result = await coolifyRequest("/version");
-      break;
-    case "coolify_enable_api":
-      result = await coolifyRequest("/enable", "GET");
-      break;
-
-    // Teams
-    case "coolify_list_teams":
-      result = await coolifyRequest("/teams");
-      break;
-    case "coolify_get_current_team":
-      result = await coolifyRequest("/teams/current");
-      break;
-    case "coolify_get_team_members":
-      result = await coolifyRequest("/teams/current/members");
-      break;
-
-    // Projects
-    case "coolify_list_projects":
-      result = await coolifyRequest("/projects");
-      break;
-    case "coolify_get_project":
-      result = await coolifyRequest(`/projects/${args.uuid}`);
-      break;
-    case "coolify_create_project":
-      result = await coolifyRequest("/projects", "POST", args);
-      break;
-    case "coolify_update_project": {
-      const { uuid, ...updateData } = args;
-      result = await coolifyRequest(`/projects/${uuid}`, "PATCH", updateData);
-      break;
-    }
-    case "coolify_delete_project":
-      result = await coolifyRequest(`/projects/${args.uuid}`, "DELETE");
-      break;
-
-    // Environments
-    case "coolify_get_project_environment":
-      result = await coolifyRequest(`/projects/${args.project_uuid}/${args.environment_name}`);
-      break;
-    case "coolify_create_environment": {
-      const { project_uuid, ...envData } = args;
-      result = await coolifyRequest(`/projects/${project_uuid}/environments`, "POST", envData);
-      break;
-    }
-    case "coolify_delete_environment":
-      result = await coolifyRequest(`/projects/${args.project_uuid}/${args.environment_name}`, "DELETE");
-      break;
-
-    // Servers
-    case "coolify_list_servers":
-      result = await coolifyRequest("/servers");
-      break;
-    case "coolify_get_server": {
-      const { uuid, include_resources } = args;
-      const query = include_resources ? "?resources=true" : "";
-      result = await coolifyRequest(`/servers/${uuid}${query}`);
-      break;
-    }
-    case "coolify_create_server":
-      result = await coolifyRequest("/servers", "POST", args);
-      break;
-    case "coolify_update_server": {
-      const { uuid, ...serverData } = args;
-      result = await coolifyRequest(`/servers/${uuid}`, "PATCH", serverData);
-      break;
-    }
-    case "coolify_delete_server":
-      result = await coolifyRequest(`/servers/${args.uuid}`, "DELETE");
-      break;
-    case "coolify_validate_server":
-      result = await coolifyRequest(`/servers/${args.uuid}/validate`, "GET");
-      break;
-    case "coolify_get_server_resources":
-      result = await coolifyRequest(`/servers/${args.uuid}/resources`);
-      break;
-    case "coolify_get_server_domains":
-      result = await coolifyRequest(`/servers/${args.uuid}/domains`);
-      break;
-
-    // GitHub Apps
-    case "coolify_list_github_apps":
-      result = await coolifyRequest("/github-apps");
-      break;
-    case "coolify_list_github_app_repositories":
-      result = await coolifyRequest(`/github-apps/${args.id}/repositories`);
-      break;
-
-    // Private Keys
-    case "coolify_list_private_keys":
-      result = await coolifyRequest("/security/keys");
-      break;
-    case "coolify_get_private_key":
-      result = await coolifyRequest(`/security/keys/${args.uuid}`);
-      break;
-    case "coolify_create_private_key":
-      result = await coolifyRequest("/security/keys", "POST", args);
-      break;
-    case "coolify_update_private_key": {
-      const { uuid, ...keyData } = args;
-      result = await coolifyRequest(`/security/keys/${uuid}`, "PATCH", keyData);
-      break;
-    }
-    case "coolify_delete_private_key":
-      result = await coolifyRequest(`/security/keys/${args.uuid}`, "DELETE");
-      break;
-
-    // Applications
-    case "coolify_list_applications":
-      result = await coolifyRequest("/applications");
-      break;
-    case "coolify_get_application":
-      result = await coolifyRequest(`/applications/${args.uuid}`);
-      break;
-    case "coolify_create_application_public":
-      result = await coolifyRequest("/applications/public", "POST", args);
-      break;
-    case "coolify_create_application_private_github":
-      result = await coolifyRequest("/applications/private-github-app", "POST", args);
-      break;
-    case "coolify_create_application_private_deploy_key":
-      result = await coolifyRequest("/applications/private-deploy-key", "POST", args);
-      break;
-    case "coolify_create_application_dockerfile":
-      result = await coolifyRequest("/applications/dockerfile", "POST", args);
-      break;
-    case "coolify_create_application_docker_image":
-      result = await coolifyRequest("/applications/dockerimage", "POST", args);
-      break;
-    case "coolify_create_application_docker_compose":
-      result = await coolifyRequest("/applications/dockercompose", "POST", args);
-      break;
-    case "coolify_update_application": {
-      const { uuid, ...appData } = args;
-      result = await coolifyRequest(`/applications/${uuid}`, "PATCH", appData);
-      break;
-    }
-    case "coolify_delete_application": {
-      const { uuid, ...options } = args;
-      const query = new URLSearchParams();
-      if (options.delete_configurations) query.set("delete_configurations", "true");
-      if (options.delete_volumes) query.set("delete_volumes", "true");
-      const queryStr = query.toString() ? `?${query.toString()}` : "";
-      result = await coolifyRequest(`/applications/${uuid}${queryStr}`, "DELETE");
-      break;
-    }
-    case "coolify_start_application": {
-      const { uuid, force, commit } = args;
-      const query = new URLSearchParams();
-      if (force) query.set("force", "true");
-      if (commit) query.set("commit", commit);
-      const queryStr = query.toString() ? `?${query.toString()}` : "";
-      result = await coolifyRequest(`/applications/${uuid}/start${queryStr}`, "POST");
-      break;
-    }
-    case "coolify_stop_application":
-      result = await coolifyRequest(`/applications/${args.uuid}/stop`, "POST");
-      break;
-    case "coolify_restart_application":
-      result = await coolifyRequest(`/applications/${args.uuid}/restart`, "POST");
-      break;
-    case "coolify_get_application_logs": {
-      const { uuid, tail, since } = args;
-      const query = new URLSearchParams();
-      if (tail) query.set("tail", String(tail));
-      if (since) query.set("since", since);
-      const queryStr = query.toString() ? `?${query.toString()}` : "";
-      result = await coolifyRequest(`/applications/${uuid}/logs${queryStr}`);
-      break;
-    }
-
-    // Application Environment Variables
-    case "coolify_list_application_envs":
-      result = await coolifyRequest(`/applications/${args.uuid}/envs`);
-      break;
-    case "coolify_create_application_env": {
-      const { uuid, ...envData } = args;
-      result = await coolifyRequest(`/applications/${uuid}/envs`, "POST", envData);
-      break;
-    }
-    case "coolify_update_application_env": {
-      const { uuid, env_uuid, ...envData } = args;
-      result = await coolifyRequest(`/applications/${uuid}/envs`, "PATCH", { uuid: env_uuid, ...envData });
-      break;
-    }
-    case "coolify_delete_application_env":
-      result = await coolifyRequest(`/applications/${args.uuid}/envs/${args.env_uuid}`, "DELETE");
-      break;
-    case "coolify_bulk_update_application_envs": {
-      const { uuid, variables } = args;
-      result = await coolifyRequest(`/applications/${uuid}/envs/bulk`, "PATCH", { data: variables });
-      break;
     }
+  );
+  if (COOLIFY_MCP_WATCH) forwardWatchEvents(server);
+
+  // Register tool list handler
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: listTools()
+      .filter((tool) => toolPolicyViolation(tool) === null)
+      .map((tool) => withRevealArgument(withFreshArgument(withInstanceArgument(toMcpTool(tool))))),
+  }));
+
+  // Register resource handlers
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await listResources(),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: await readResource(request.params.uri),
+  }));
+
+  // Register prompt handlers
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts,
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { instance, ...args } = request.params.arguments ?? {};
+    return instanceStorage.run(resolveInstance(instance), () => buildPrompt(request.params.name, args));
+  });
+
+  // Register tool call handler
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
+
+    const context: ToolContext = {
+      signal: extra.signal,
+      progress:
+        progressToken === undefined
+          ? undefined
+          : (progress, total, message) =>
+              extra.sendNotification({
+                method: "notifications/progress",
+                params: { progressToken, progress, total, message },
+              }),
+      log: (level, data) =>
+        extra.sendNotification({ method: "notifications/message", params: { level, logger: "coolify", data } }),
+    };
 
-    // Databases
-    case "coolify_list_databases":
-      result = await coolifyRequest("/databases");
-      break;
-    case "coolify_get_database":
-      result = await coolifyRequest(`/databases/${args.uuid}`);
-      break;
-    case "coolify_create_database_postgresql":
-      result = await coolifyRequest("/databases/postgresql", "POST", args);
-      break;
-    case "coolify_create_database_mysql":
-      result = await coolifyRequest("/databases/mysql", "POST", args);
-      break;
-    case "coolify_create_database_mariadb":
-      result = await coolifyRequest("/databases/mariadb", "POST", args);
-      break;
-    case "coolify_create_database_mongodb":
-      result = await coolifyRequest("/databases/mongodb", "POST", args);
-      break;
-    case "coolify_create_database_redis":
-      result = await coolifyRequest("/databases/redis", "POST", args);
-      break;
-    case "coolify_create_database_clickhouse":
-      result = await coolifyRequest("/databases/clickhouse", "POST", args);
-      break;
-    case "coolify_create_database_dragonfly":
-      result = await coolifyRequest("/databases/dragonfly", "POST", args);
-      break;
-    case "coolify_create_database_keydb":
-      result = await coolifyRequest("/databases/keydb", "POST", args);
-      break;
-    case "coolify_update_database": {
-      const { uuid, ...dbData } = args;
-      result = await coolifyRequest(`/databases/${uuid}`, "PATCH", dbData);
-      break;
-    }
-    case "coolify_delete_database": {
-      const { uuid, ...options } = args;
-      const query = new URLSearchParams();
-      if (options.delete_configurations) query.set("delete_configurations", "true");
-      if (options.delete_volumes) query.set("delete_volumes", "true");
-      const queryStr = query.toString() ? `?${query.toString()}` : "";
-      result = await coolifyRequest(`/databases/${uuid}${queryStr}`, "DELETE");
-      break;
-    }
-    case "coolify_start_database":
-      result = await coolifyRequest(`/databases/${args.uuid}/start`, "POST");
-      break;
-    case "coolify_stop_database":
-      result = await coolifyRequest(`/databases/${args.uuid}/stop`, "POST");
-      break;
-    case "coolify_restart_database":
-      result = await coolifyRequest(`/databases/${args.uuid}/restart`, "POST");
-      break;
-
-    // Services
-    case "coolify_list_services":
-      result = await coolifyRequest("/services");
-      break;
-    case "coolify_get_service":
-      result = await coolifyRequest(`/services/${args.uuid}`);
-      break;
-    case "coolify_create_service":
-      result = await coolifyRequest("/services", "POST", args);
-      break;
-    case "coolify_update_service": {
-      const { uuid, ...serviceData } = args;
-      result = await coolifyRequest(`/services/${uuid}`, "PATCH", serviceData);
-      break;
-    }
-    case "coolify_delete_service": {
-      const { uuid, ...options } = args;
-      const query = new URLSearchParams();
-      if (options.delete_configurations) query.set("delete_configurations", "true");
-      if (options.delete_volumes) query.set("delete_volumes", "true");
-      const queryStr = query.toString() ? `?${query.toString()}` : "";
-      result = await coolifyRequest(`/services/${uuid}${queryStr}`, "DELETE");
-      break;
-    }
-    case "coolify_start_service":
-      result = await coolifyRequest(`/services/${args.uuid}/start`, "POST");
-      break;
-    case "coolify_stop_service":
-      result = await coolifyRequest(`/services/${args.uuid}/stop`, "POST");
-      break;
-    case "coolify_restart_service":
-      result = await coolifyRequest(`/services/${args.uuid}/restart`, "POST");
-      break;
-
-    // Service Environment Variables
-    case "coolify_list_service_envs":
-      result = await coolifyRequest(`/services/${args.uuid}/envs`);
-      break;
-    case "coolify_create_service_env": {
-      const { uuid, ...envData } = args;
-      result = await coolifyRequest(`/services/${uuid}/envs`, "POST", envData);
-      break;
-    }
-    case "coolify_update_service_env": {
-      const { uuid, env_uuid, ...envData } = args;
-      result = await coolifyRequest(`/services/${uuid}/envs`, "PATCH", { uuid: env_uuid, ...envData });
-      break;
-    }
-    case "coolify_delete_service_env":
-      result = await coolifyRequest(`/services/${args.uuid}/envs/${args.env_uuid}`, "DELETE");
-      break;
-
-    // Deployments
-    case "coolify_deploy": {
-      const query = new URLSearchParams();
-      if (args.uuid) query.set("uuid", args.uuid);
-      if (args.tag) query.set("tag", args.tag);
-      if (args.force) query.set("force", "true");
-      if (args.pr) query.set("pr", String(args.pr));
-      const queryStr = query.toString() ? `?${query.toString()}` : "";
-      result = await coolifyRequest(`/deploy${queryStr}`, "GET");
-      break;
-    }
-    case "coolify_list_deployments": {
-      const { uuid, skip, take } = args;
-      const query = new URLSearchParams();
-      if (skip) query.set("skip", String(skip));
-      if (take) query.set("take", String(take));
-      const queryStr = query.toString() ? `?${query.toString()}` : "";
-      result = await coolifyRequest(`/applications/${uuid}/deployments${queryStr}`);
-      break;
+    const { instance, reveal_secrets, fresh, ...toolArgs } = args || {};
+    context.revealSecrets = reveal_secrets === true;
+    const clientInfo = server.getClientVersion();
+    const audit = startAudit(name, toolArgs, {
+      instance: String(instance ?? defaultInstanceName),
+      session: extra.sessionId,
+      client: clientInfo && `${clientInfo.name}/${clientInfo.version}`,
+      revealSecrets: context.revealSecrets,
+    });
+
+    try {
+      const [result, versionWarning] = await instanceStorage.run(resolveInstance(instance as string | undefined), () =>
+        Promise.all([
+          audit.track(() =>
+            withAbortSignal(extra.signal, () =>
+              fresh === true
+                ? withFreshReads(() => handleToolCall(name, toolArgs, context))
+                : handleToolCall(name, toolArgs, context)
+            )
+          ),
+          getTool(name)?.local ? null : takeVersionWarning(),
+        ])
+      );
+      await audit.finish(result.success);
+      const content = [{ type: "text", text: result.text }];
+      if (versionWarning) content.push({ type: "text", text: `Warning: ${versionWarning}` });
+      return result.structuredContent ? { content, structuredContent: result.structuredContent } : { content };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      await audit.finish(false, errorMessage);
+      // Protocol errors such as invalid arguments go back as JSON-RPC errors
+      if (error instanceof McpError) throw error;
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: errorMessage }) }],
+        isError: true,
+      };
     }
-    case "coolify_get_deployment":
-      result = await coolifyRequest(`/deployments/${args.uuid}`);
-      break;
-
-    // Resources
-    case "coolify_list_resources":
-      result = await coolifyRequest("/resources");
-      break;
+  });
 
-    default:
-      return JSON.stringify({ error: `Unknown tool: ${name}` });
-  }
-
-  return JSON.stringify(result, null, 2);
+  return server;
 }
 
-// ============================================================================
-// Server Setup
-// ============================================================================
-
-const server = new Server(
-  {
-    name: "coolify-mcp",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+// Start the server
+async function main() {
+  if (COOLIFY_MCP_TOOLS_DIR) {
+    const loaded = await loadToolModules(COOLIFY_MCP_TOOLS_DIR);
+    console.error(`Loaded ${loaded.length} tool(s) from ${COOLIFY_MCP_TOOLS_DIR}: ${loaded.join(", ")}`);
   }
-);
+  if (COOLIFY_MCP_WATCH) startWatcher();
 
-// Register tool list handler
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools,
-}));
-
-// Register tool call handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    const result = await handleToolCall(name, args || {});
-    return {
-      content: [{ type: "text", text: result }],
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return {
-      content: [{ type: "text", text: JSON.stringify({ error: errorMessage }) }],
-      isError: true,
-    };
+  if (COOLIFY_MCP_TRANSPORT === "http") {
+    if (!COOLIFY_MCP_AUTH_TOKEN) {
+      throw new Error("COOLIFY_MCP_AUTH_TOKEN is required when using the HTTP transport");
+    }
+    await startHttpServer(createServer, {
+      host: COOLIFY_MCP_HOST,
+      port: COOLIFY_MCP_PORT,
+      authToken: COOLIFY_MCP_AUTH_TOKEN,
+      sessionIdleTimeoutMs: COOLIFY_MCP_SESSION_IDLE_TIMEOUT_SECONDS * 1000,
+    });
+    console.error(`Coolify MCP Server running on http://${COOLIFY_MCP_HOST}:${COOLIFY_MCP_PORT} (/mcp, /sse)`);
+    return;
   }
-});
 
-// Start the server
-async function main() {
+  if (COOLIFY_MCP_TRANSPORT !== "stdio") {
+    throw new Error(`Unknown transport "${COOLIFY_MCP_TRANSPORT}". Use "stdio" or "http"`);
+  }
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error("Coolify MCP Server running on stdio");
 }
 
@@ -0,0 +1,662 @@
+/**
+ * Declarative project manifests
+ * Compares a manifest describing a project's environments, applications, databases, services
+ * and env vars with live Coolify state, and applies the difference in dependency order
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { api, ApiResponse, ApplicationSource, DATABASE_TYPES, DatabaseType } from "./client.js";
+import { MASKED_VALUE } from "./redaction.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ManifestResource {
+  name: string;
+  type: string;
+  server_uuid?: string;
+  env?: Record<string, string>;
+  /** Env var names only, as written by an export without values; ignored when applying. */
+  env_keys?: string[];
+  [setting: string]: any;
+}
+
+export interface ManifestEnvironment {
+  name: string;
+  applications?: ManifestResource[];
+  databases?: ManifestResource[];
+  services?: ManifestResource[];
+}
+
+export interface Manifest {
+  project: { name: string; description?: string };
+  server_uuid?: string;
+  environments: ManifestEnvironment[];
+}
+
+type ResourceKind = "application" | "database" | "service";
+
+export interface PlanStep {
+  action: "create" | "update";
+  kind: "project" | "environment" | ResourceKind | "env_vars";
+  target: string;
+  changes?: Record<string, { from: unknown; to: unknown }>;
+  keys?: string[];
+}
+
+interface ApplyState {
+  projectUuid?: string;
+  /** Resource UUIDs by `kind:environment/name`, filled in as resources are created. */
+  uuids: Map<string, string>;
+}
+
+interface ExecutableStep extends PlanStep {
+  run(state: ApplyState): Promise<ApiResponse>;
+}
+
+export interface Plan {
+  project: string;
+  steps: ExecutableStep[];
+  state: ApplyState;
+  /** Settings and env vars left alone because the manifest holds a masked value, as `kind target: field`. */
+  skipped: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Manifest application types and the create endpoint each one uses. */
+const APPLICATION_SOURCES: Record<string, ApplicationSource> = {
+  public: "public",
+  private_github: "private-github-app",
+  private_deploy_key: "private-deploy-key",
+  dockerfile: "dockerfile",
+  docker_image: "dockerimage",
+  docker_compose: "dockercompose",
+};
+
+/** Environments Coolify creates together with a new project. */
+export const DEFAULT_ENVIRONMENTS = ["production"];
+
+/** Keys under which GET /projects/{uuid}/{environment} lists each database type. */
+export const ENVIRONMENT_DATABASE_KEYS = [
+  "postgresqls",
+  "mysqls",
+  "mariadbs",
+  "mongodbs",
+  "redis",
+  "clickhouses",
+  "dragonflies",
+  "keydbs",
+];
+
+/** Manifest fields that only matter on create and are not returned by Coolify afterwards. */
+const CREATE_ONLY_FIELDS = new Set([
+  "instant_deploy",
+  "github_app_uuid",
+  "private_key_uuid",
+  "destination_uuid",
+  "docker_compose_raw",
+]);
+
+/** Manifest field names that Coolify reports under a different name. */
+const LIVE_FIELD_ALIASES: Record<string, string> = {
+  domains: "fqdn",
+};
+
+const RESOURCE_FIELDS = new Set(["name", "type", "server_uuid", "env", "env_keys"]);
+
+/** Settings written by an export, in output order. Credentials are only exported with values. */
+const APPLICATION_EXPORT_FIELDS = [
+  "description",
+  "git_repository",
+  "git_branch",
+  "git_commit_sha",
+  "build_pack",
+  "static_image",
+  "install_command",
+  "build_command",
+  "start_command",
+  "base_directory",
+  "publish_directory",
+  "dockerfile_location",
+  "docker_compose_location",
+  "docker_registry_image_name",
+  "docker_registry_image_tag",
+  "ports_exposes",
+  "ports_mappings",
+  "domains",
+  "redirect",
+  "health_check_enabled",
+  "health_check_path",
+  "health_check_port",
+  "health_check_host",
+  "health_check_method",
+  "health_check_return_code",
+  "health_check_scheme",
+  "health_check_response_text",
+  "health_check_interval",
+  "health_check_timeout",
+  "health_check_retries",
+  "health_check_start_period",
+  "limits_memory",
+  "limits_memory_swap",
+  "limits_memory_swappiness",
+  "limits_memory_reservation",
+  "limits_cpus",
+  "limits_cpuset",
+  "limits_cpu_shares",
+];
+
+const DATABASE_EXPORT_FIELDS = [
+  "description",
+  "image",
+  "is_public",
+  "public_port",
+  "limits_memory",
+  "limits_memory_swap",
+  "limits_memory_swappiness",
+  "limits_memory_reservation",
+  "limits_cpus",
+  "limits_cpuset",
+  "limits_cpu_shares",
+];
+
+const DATABASE_CREDENTIAL_FIELDS = [
+  "postgres_user",
+  "postgres_password",
+  "postgres_db",
+  "mysql_root_password",
+  "mysql_user",
+  "mysql_password",
+  "mysql_database",
+  "mariadb_root_password",
+  "mariadb_user",
+  "mariadb_password",
+  "mariadb_database",
+  "mongo_initdb_root_username",
+  "mongo_initdb_root_password",
+  "mongo_initdb_database",
+  "redis_password",
+  "clickhouse_admin_user",
+  "clickhouse_admin_password",
+  "dragonfly_password",
+  "keydb_password",
+];
+
+const SERVICE_EXPORT_FIELDS = ["description"];
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function validateResources(
+  resources: unknown,
+  path: string,
+  kind: ResourceKind,
+  errors: string[]
+): void {
+  if (resources === undefined) return;
+  if (!Array.isArray(resources)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+  const names = new Set<string>();
+  resources.forEach((resource: any, i) => {
+    const at = `${path}[${i}]`;
+    if (!resource || typeof resource !== "object") {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    if (typeof resource.name !== "string" || resource.name === "") errors.push(`${at}.name is required`);
+    else if (names.has(resource.name)) errors.push(`${at}.name "${resource.name}" is used twice`);
+    else names.add(resource.name);
+
+    if (kind === "application" && !(resource.type in APPLICATION_SOURCES)) {
+      errors.push(`${at}.type must be one of: ${Object.keys(APPLICATION_SOURCES).join(", ")}`);
+    }
+    if (kind === "database" && !isDatabaseType(resource.type)) {
+      errors.push(`${at}.type must be one of: ${DATABASE_TYPES.join(", ")}`);
+    }
+    if (kind === "service" && resource.type !== undefined && typeof resource.type !== "string") {
+      errors.push(`${at}.type must be a string`);
+    }
+    if (resource.env !== undefined) {
+      if (kind === "database") errors.push(`${at}.env is not supported for databases`);
+      else if (!resource.env || typeof resource.env !== "object" || Array.isArray(resource.env)) {
+        errors.push(`${at}.env must be a map of KEY: value`);
+      }
+    }
+  });
+}
+
+/** Parses a YAML or JSON manifest and reports every structural problem at once. */
+export function parseManifest(content: string): Manifest {
+  let manifest: any;
+  try {
+    manifest = content.trim().startsWith("{") ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Invalid manifest: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const errors: string[] = [];
+  if (!manifest || typeof manifest !== "object") {
+    throw new Error("Invalid manifest: expected an object with project and environments");
+  }
+  if (typeof manifest.project?.name !== "string" || manifest.project.name === "") {
+    errors.push("project.name is required");
+  }
+  if (!Array.isArray(manifest.environments)) {
+    errors.push("environments must be an array");
+  } else {
+    manifest.environments.forEach((env: any, i: number) => {
+      const at = `environments[${i}]`;
+      if (typeof env?.name !== "string" || env.name === "") {
+        errors.push(`${at}.name is required`);
+        return;
+      }
+      validateResources(env.applications, `${at}.applications`, "application", errors);
+      validateResources(env.databases, `${at}.databases`, "database", errors);
+      validateResources(env.services, `${at}.services`, "service", errors);
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid manifest:\n- ${errors.join("\n- ")}`);
+  }
+  return manifest as Manifest;
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+function settingsOf(resource: ManifestResource): Record<string, any> {
+  return Object.fromEntries(Object.entries(resource).filter(([key]) => !RESOURCE_FIELDS.has(key)));
+}
+
+/** Values masked by an export without reveal_secrets; applying them would overwrite the real secret. */
+function isMasked(value: unknown): boolean {
+  return typeof value === "string" && value.includes(MASKED_VALUE);
+}
+
+function sameValue(live: unknown, desired: unknown): boolean {
+  if (typeof desired === "boolean") return Boolean(live) === desired;
+  if (desired !== null && typeof desired === "object") return JSON.stringify(live) === JSON.stringify(desired);
+  return String(live ?? "") === String(desired ?? "");
+}
+
+function settingChanges(live: any, desired: Record<string, any>): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const [field, value] of Object.entries(desired)) {
+    if (CREATE_ONLY_FIELDS.has(field)) continue;
+    const liveValue = live[LIVE_FIELD_ALIASES[field] ?? field];
+    // Fields Coolify does not report cannot be compared; leave them alone
+    if (liveValue === undefined) continue;
+    if (!sameValue(liveValue, value)) changes[field] = { from: liveValue, to: value };
+  }
+  return changes;
+}
+
+function createResource(kind: ResourceKind, resource: ManifestResource, body: Record<string, any>) {
+  if (kind === "application") return api.createApplication(APPLICATION_SOURCES[resource.type], body);
+  if (kind === "database") return api.createDatabase(resource.type as DatabaseType, body);
+  return api.createService(body);
+}
+
+function getResource(kind: ResourceKind, uuid: string): Promise<ApiResponse<any>> {
+  if (kind === "application") return api.getApplication(uuid);
+  if (kind === "database") return api.getDatabase(uuid);
+  return api.getService(uuid);
+}
+
+function updateResource(kind: ResourceKind, uuid: string, body: Record<string, any>): Promise<ApiResponse> {
+  if (kind === "application") return api.updateApplication(uuid, body);
+  if (kind === "database") return api.updateDatabase(uuid, body);
+  return api.updateService(uuid, body);
+}
+
+function requireUuid(state: ApplyState, key: string): string {
+  const uuid = state.uuids.get(key);
+  if (!uuid) throw new Error(`${key} has no UUID; was its create step skipped?`);
+  return uuid;
+}
+
+async function planResource(
+  manifest: Manifest,
+  environment: string,
+  kind: ResourceKind,
+  resource: ManifestResource,
+  liveResources: any[],
+  plan: Plan
+): Promise<void> {
+  const target = `${environment}/${resource.name}`;
+  const key = `${kind}:${target}`;
+  const live = liveResources.find((item) => item.name === resource.name);
+  const settings = settingsOf(resource);
+  for (const [field, value] of Object.entries(settings)) {
+    if (!isMasked(value)) continue;
+    delete settings[field];
+    plan.skipped.push(`${kind} ${target}: ${field}`);
+  }
+
+  if (!live) {
+    const serverUuid = resource.server_uuid ?? manifest.server_uuid;
+    if (!serverUuid) {
+      throw new Error(`${kind} ${target} does not exist and has no server_uuid to create it on`);
+    }
+    plan.steps.push({
+      action: "create",
+      kind,
+      target,
+      async run(state) {
+        const body = {
+          project_uuid: state.projectUuid,
+          server_uuid: serverUuid,
+          environment_name: environment,
+          name: resource.name,
+          ...(kind === "service" && resource.type !== undefined && { type: resource.type }),
+          ...settings,
+        };
+        const response = await createResource(kind, resource, body);
+        if (response.success && response.data?.uuid) state.uuids.set(key, response.data.uuid);
+        return response;
+      },
+    });
+  } else {
+    plan.state.uuids.set(key, live.uuid);
+    const changes = settingChanges(live, settings);
+    if (Object.keys(changes).length > 0) {
+      const update = Object.fromEntries(Object.keys(changes).map((field) => [field, settings[field]]));
+      plan.steps.push({
+        action: "update",
+        kind,
+        target,
+        changes,
+        run: (state) => updateResource(kind, requireUuid(state, key), update),
+      });
+    }
+  }
+
+  if (!resource.env || kind === "database") return;
+  const envType = kind;
+
+  let pending = Object.keys(resource.env).filter((envKey) => {
+    if (!isMasked(resource.env![envKey])) return true;
+    plan.skipped.push(`${kind} ${target}: ${envKey}`);
+    return false;
+  });
+  if (live) {
+    const envs = await api.listEnvs(envType, live.uuid);
+    if (!envs.success) throw new Error(`Could not read env vars of ${kind} ${target}: ${envs.error}`);
+    const current = new Map(envs.data!.filter((env) => !env.is_preview).map((env) => [env.key, env]));
+    pending = pending.filter((envKey) => (current.get(envKey)?.value ?? null) !== String(resource.env![envKey]));
+  }
+  if (pending.length === 0) return;
+
+  plan.steps.push({
+    action: live ? "update" : "create",
+    kind: "env_vars",
+    target,
+    keys: pending,
+    run: (state) =>
+      api.bulkUpdateEnvs(
+        envType,
+        requireUuid(state, key),
+        pending.map((envKey) => ({ key: envKey, value: String(resource.env![envKey]) }))
+      ),
+  });
+}
+
+/**
+ * Builds the steps needed to bring Coolify in line with the manifest:
+ * project, then environments (except those Coolify adds to a new project),
+ * then databases, services and applications
+ * (each followed by its env vars).
+ */
+export async function planManifest(manifest: Manifest): Promise<Plan> {
+  const plan: Plan = { project: manifest.project.name, steps: [], state: { uuids: new Map() }, skipped: [] };
+
+  const projects = await api.listProjects();
+  if (!projects.success) throw new Error(`Could not list projects: ${projects.error}`);
+  const project = projects.data!.find((item) => item.name === manifest.project.name);
+
+  if (!project) {
+    plan.steps.push({
+      action: "create",
+      kind: "project",
+      target: manifest.project.name,
+      async run(state) {
+        const response = await api.createProject(manifest.project);
+        if (response.success) state.projectUuid = response.data?.uuid;
+        return response;
+      },
+    });
+  } else {
+    plan.state.projectUuid = project.uuid;
+    const changes = settingChanges(project, { description: manifest.project.description });
+    if (manifest.project.description !== undefined && Object.keys(changes).length > 0) {
+      plan.steps.push({
+        action: "update",
+        kind: "project",
+        target: manifest.project.name,
+        changes,
+        run: () => api.updateProject(project.uuid, { description: manifest.project.description }),
+      });
+    }
+  }
+
+  for (const environment of manifest.environments) {
+    let live: any = null;
+    if (project) {
+      const response = await api.getEnvironment(project.uuid, environment.name);
+      if (response.success) live = response.data;
+    }
+    if (!live && (project || !DEFAULT_ENVIRONMENTS.includes(environment.name))) {
+      plan.steps.push({
+        action: "create",
+        kind: "environment",
+        target: environment.name,
+        run: (state) => api.createEnvironment(state.projectUuid!, { name: environment.name }),
+      });
+    }
+
+    const liveDatabases = ENVIRONMENT_DATABASE_KEYS.flatMap((dbKey) => (Array.isArray(live?.[dbKey]) ? live[dbKey] : []));
+    const groups: [ResourceKind, ManifestResource[] | undefined, any[]][] = [
+      ["database", environment.databases, liveDatabases],
+      ["service", environment.services, live?.services ?? []],
+      ["application", environment.applications, live?.applications ?? []],
+    ];
+    for (const [kind, resources, liveResources] of groups) {
+      for (const resource of resources ?? []) {
+        await planResource(manifest, environment.name, kind, resource, liveResources, plan);
+      }
+    }
+  }
+
+  return plan;
+}
+
+/** The serializable part of a plan, for showing to the user. */
+export function describePlan(plan: Plan) {
+  return {
+    project: plan.project,
+    summary: {
+      create: plan.steps.filter((step) => step.action === "create").length,
+      update: plan.steps.filter((step) => step.action === "update").length,
+    },
+    steps: plan.steps.map(({ run, ...step }) => step),
+    ...(plan.skipped.length > 0 && { skipped_masked: plan.skipped }),
+  };
+}
+
+// ============================================================================
+// Applying
+// ============================================================================
+
+/** Runs the plan's steps in order and stops at the first failure. */
+export async function applyPlan(plan: Plan) {
+  const applied: PlanStep[] = [];
+  for (const [index, { run, ...step }] of plan.steps.entries()) {
+    let error: string | undefined;
+    try {
+      const response = await run(plan.state);
+      if (!response.success) error = response.error ?? "Unknown error";
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    if (error !== undefined) {
+      return {
+        success: false,
+        error: `${step.action} ${step.kind} ${step.target} failed: ${error}`,
+        data: {
+          applied,
+          failed: step,
+          not_run: plan.steps.slice(index + 1).map(({ run: _, ...rest }) => rest),
+        },
+      };
+    }
+    applied.push(step);
+  }
+  return {
+    success: true,
+    data: { project: plan.project, applied, ...(plan.skipped.length > 0 && { skipped_masked: plan.skipped }) },
+  };
+}
+
+// ============================================================================
+// Exporting
+// ============================================================================
+
+function pickFields(source: any, fields: string[]): Record<string, any> {
+  const picked: Record<string, any> = {};
+  for (const field of fields) {
+    const value = source[LIVE_FIELD_ALIASES[field] ?? field];
+    if (value !== null && value !== undefined && value !== "") picked[field] = value;
+  }
+  return picked;
+}
+
+/** Best guess at which create endpoint an existing application came from. */
+function applicationType(app: any): string {
+  if (app.build_pack === "dockerimage") return "docker_image";
+  if (app.build_pack === "dockercompose") return "docker_compose";
+  if (app.build_pack === "dockerfile" && !app.git_repository) return "dockerfile";
+  if (app.private_key_id) return "private_deploy_key";
+  if (String(app.source_type ?? "").includes("GithubApp") && app.source?.is_public === false) return "private_github";
+  return "public";
+}
+
+function isDatabaseType(type: unknown): type is DatabaseType {
+  return (DATABASE_TYPES as readonly unknown[]).includes(type);
+}
+
+function databaseType(db: any): string {
+  const type = String(db.database_type ?? db.type ?? "").replace(/^standalone-/, "");
+  return isDatabaseType(type) ? type : type || "unknown";
+}
+
+function serverUuidOf(resource: any): string | undefined {
+  return resource.destination?.server?.uuid ?? resource.server?.uuid;
+}
+
+async function exportEnv(
+  kind: Exclude<ResourceKind, "database">,
+  uuid: string,
+  includeValues: boolean
+): Promise<Pick<ManifestResource, "env" | "env_keys">> {
+  const response = await api.listEnvs(kind, uuid);
+  if (!response.success) throw new Error(`Could not read env vars of ${kind} ${uuid}: ${response.error}`);
+  const envs = response.data!
+    .filter((env) => !env.is_preview)
+    .sort((a, b) => String(a.key).localeCompare(String(b.key)));
+  if (envs.length === 0) return {};
+  if (!includeValues) return { env_keys: envs.map((env) => env.key) };
+  return { env: Object.fromEntries(envs.map((env) => [env.key, env.value ?? ""])) };
+}
+
+async function exportResource(kind: ResourceKind, uuid: string, includeValues: boolean): Promise<ManifestResource> {
+  const response = await getResource(kind, uuid);
+  if (!response.success) throw new Error(`Could not read ${kind} ${uuid}: ${response.error}`);
+  const live = response.data;
+
+  let resource: ManifestResource;
+  if (kind === "application") {
+    resource = { name: live.name, type: applicationType(live), ...pickFields(live, APPLICATION_EXPORT_FIELDS) };
+  } else if (kind === "database") {
+    resource = {
+      name: live.name,
+      type: databaseType(live),
+      ...pickFields(live, DATABASE_EXPORT_FIELDS),
+      ...(includeValues && pickFields(live, DATABASE_CREDENTIAL_FIELDS)),
+    };
+  } else {
+    resource = { name: live.name, type: live.service_type, ...pickFields(live, SERVICE_EXPORT_FIELDS) };
+  }
+
+  const serverUuid = serverUuidOf(live);
+  if (serverUuid) resource.server_uuid = serverUuid;
+  if (kind !== "database") Object.assign(resource, await exportEnv(kind, uuid, includeValues));
+  return resource;
+}
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+/**
+ * Snapshots a live project as a manifest in the format `parseManifest` reads.
+ * Resources are sorted by name so exports diff cleanly. Env var and database
+ * credential values are only included when `includeValues` is set.
+ */
+export async function exportProject(projectUuid: string, options: { includeValues: boolean }): Promise<Manifest> {
+  const projectResponse = await api.getProject(projectUuid);
+  if (!projectResponse.success) throw new Error(`Could not read project ${projectUuid}: ${projectResponse.error}`);
+  const project = projectResponse.data!;
+
+  const environments: ManifestEnvironment[] = [];
+  for (const { name } of project.environments ?? []) {
+    const response = await api.getEnvironment(projectUuid, name);
+    if (!response.success) throw new Error(`Could not read environment ${name}: ${response.error}`);
+    const live: any = response.data;
+
+    const exportAll = (kind: ResourceKind, items: any[]) =>
+      Promise.all(items.map((item) => exportResource(kind, item.uuid, options.includeValues)));
+    const [applications, databases, services] = await Promise.all([
+      exportAll("application", live.applications ?? []),
+      exportAll("database", ENVIRONMENT_DATABASE_KEYS.flatMap((dbKey) => live[dbKey] ?? [])),
+      exportAll("service", live.services ?? []),
+    ]);
+
+    environments.push({
+      name,
+      ...(databases.length > 0 && { databases: databases.sort(byName) }),
+      ...(services.length > 0 && { services: services.sort(byName) }),
+      ...(applications.length > 0 && { applications: applications.sort(byName) }),
+    });
+  }
+
+  // Hoist the server UUID when every resource runs on the same server
+  const resources = environments.flatMap((env) => [
+    ...(env.databases ?? []),
+    ...(env.services ?? []),
+    ...(env.applications ?? []),
+  ]);
+  const servers = new Set(resources.map((resource) => resource.server_uuid));
+  const sharedServer = servers.size === 1 ? [...servers][0] : undefined;
+  if (sharedServer) resources.forEach((resource) => delete resource.server_uuid);
+
+  return {
+    project: {
+      name: project.name,
+      ...(project.description && { description: project.description }),
+    },
+    ...(sharedServer && { server_uuid: sharedServer }),
+    environments: environments.sort(byName),
+  };
+}
+
+export function formatManifest(manifest: Manifest, format: "yaml" | "json"): string {
+  return format === "json" ? JSON.stringify(manifest, null, 2) : stringifyYaml(manifest);
+}
@@ -0,0 +1,253 @@
+/**
+ * Output options for list and get tools
+ * Field projection, client-side filters, cursor pagination, and compact table or markdown rendering
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ApiResponse, listProjectEnvironments } from "./client.js";
+
+export type OutputKind = "list" | "item";
+export type OutputFormat = "json" | "table" | "markdown";
+
+export interface OutputOptions {
+  fields?: string[];
+  format?: OutputFormat;
+  name?: string;
+  status?: string;
+  project?: string;
+  tag?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface FormattedOutput {
+  text: string;
+  structuredContent: Record<string, unknown>;
+}
+
+// ============================================================================
+// Option Schemas
+// ============================================================================
+
+const ITEM_OPTION_PROPERTIES = {
+  fields: {
+    type: "array",
+    items: { type: "string" },
+    description: "Only return these keys; dotted paths such as settings.is_reachable are allowed",
+  },
+  format: {
+    type: "string",
+    enum: ["json", "table", "markdown"],
+    description: "Output format: json (default), a compact text table, or a markdown summary",
+  },
+};
+
+const LIST_OPTION_PROPERTIES = {
+  ...ITEM_OPTION_PROPERTIES,
+  name: { type: "string", description: "Only items whose name contains this text (case-insensitive)" },
+  status: { type: "string", description: "Only items whose status starts with this, e.g. running or exited" },
+  project: { type: "string", description: "Only items in this project (name or UUID)" },
+  tag: { type: "string", description: "Only items with this tag" },
+  limit: { type: "integer", description: "Maximum number of items to return" },
+  cursor: { type: "string", description: "next_cursor from a previous call; pass the same filters to get the next page" },
+};
+
+export function outputOptionProperties(kind: OutputKind): Record<string, object> {
+  return kind === "list" ? LIST_OPTION_PROPERTIES : ITEM_OPTION_PROPERTIES;
+}
+
+/** Separates output options from the arguments meant for the handler. */
+export function splitOutputOptions(
+  kind: OutputKind,
+  args: Record<string, any>
+): { options: OutputOptions; args: Record<string, any> } {
+  const optionNames = outputOptionProperties(kind);
+  const options: Record<string, any> = {};
+  const rest: Record<string, any> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (key in optionNames) options[key] = value;
+    else rest[key] = value;
+  }
+  return { options, args: rest };
+}
+
+// ============================================================================
+// Filtering & Pagination
+// ============================================================================
+
+/** Items of a list response: the array itself, or the only array inside a wrapper such as `{ deployments: [...] }`. */
+function listItems(data: unknown): unknown[] | null {
+  if (Array.isArray(data)) return data;
+  if (!data || typeof data !== "object") return null;
+  const arrays = Object.values(data).filter(Array.isArray);
+  return arrays.length === 1 ? arrays[0] : null;
+}
+
+function tagNames(item: any): string[] {
+  const tags = Array.isArray(item?.tags) ? item.tags : [];
+  return tags.map((tag: any) => String(typeof tag === "object" ? tag?.name : tag).toLowerCase());
+}
+
+/** Environment IDs of a project given by UUID or name; items are matched on their `environment_id`. */
+async function projectEnvironmentIds(project: string): Promise<Set<unknown>> {
+  const matching = await listProjectEnvironments(
+    (p) => p.uuid === project || p.name.toLowerCase() === project.toLowerCase()
+  );
+  if (matching.length === 0) throw new McpError(ErrorCode.InvalidParams, `Unknown project: ${project}`, { field: "project" });
+  return new Set(matching.flatMap(({ environments }) => environments.map((env) => env.id)));
+}
+
+async function filterItems(items: unknown[], options: OutputOptions): Promise<unknown[]> {
+  const name = options.name?.toLowerCase();
+  const status = options.status?.toLowerCase();
+  const tag = options.tag?.toLowerCase();
+  const environmentIds = options.project ? await projectEnvironmentIds(options.project) : null;
+
+  return items.filter((item: any) => {
+    if (name && !String(item?.name ?? "").toLowerCase().includes(name)) return false;
+    if (status && !String(item?.status ?? "").toLowerCase().startsWith(status)) return false;
+    if (tag && !tagNames(item).includes(tag)) return false;
+    if (environmentIds && !environmentIds.has(item?.environment_id)) return false;
+    return true;
+  });
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString("base64url");
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // Reported below
+  }
+  throw new McpError(ErrorCode.InvalidParams, "Invalid cursor", { field: "cursor" });
+}
+
+// ============================================================================
+// Projection & Rendering
+// ============================================================================
+
+function getPath(value: any, path: string): unknown {
+  return path.split(".").reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+function project(value: unknown, fields: string[] | undefined): unknown {
+  if (!fields || fields.length === 0 || !value || typeof value !== "object") return value;
+  const result: Record<string, any> = {};
+  for (const field of fields) {
+    const found = getPath(value, field);
+    if (found === undefined) continue;
+    const keys = field.split(".");
+    let target = result;
+    for (const key of keys.slice(0, -1)) target = target[key] ??= {};
+    target[keys[keys.length - 1]] = found;
+  }
+  return result;
+}
+
+const DEFAULT_COLUMNS = ["uuid", "deployment_uuid", "name", "type", "status", "fqdn", "ip", "created_at"];
+const MAX_CELL_LENGTH = 60;
+
+function columnsFor(rows: unknown[], fields: string[] | undefined): string[] {
+  if (fields && fields.length > 0) return fields;
+  const present = DEFAULT_COLUMNS.filter((column) => rows.some((row) => getPath(row, column) !== undefined));
+  if (present.length > 0) return present;
+  const first = rows.find((row) => row && typeof row === "object") ?? {};
+  return Object.keys(first).filter((key) => isScalar((first as any)[key])).slice(0, 6);
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || ["string", "number", "boolean"].includes(typeof value);
+}
+
+function cell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = (typeof value === "object" ? JSON.stringify(value) : String(value)).replace(/\s+/g, " ");
+  return text.length > MAX_CELL_LENGTH ? `${text.slice(0, MAX_CELL_LENGTH - 1)}…` : text;
+}
+
+function renderTable(header: string[], rows: string[][]): string {
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  const line = (row: string[]) => row.map((value, i) => value.padEnd(widths[i])).join("  ").trimEnd();
+  return [line(header), line(widths.map((width) => "-".repeat(width))), ...rows.map(line)].join("\n");
+}
+
+function renderMarkdownTable(header: string[], rows: string[][]): string {
+  const escape = (value: string) => value.replace(/\|/g, "\\|");
+  return [
+    `| ${header.map(escape).join(" | ")} |`,
+    `|${header.map(() => "---").join("|")}|`,
+    ...rows.map((row) => `| ${row.map(escape).join(" | ")} |`),
+  ].join("\n");
+}
+
+function renderList(items: unknown[], options: OutputOptions, format: OutputFormat): string {
+  const columns = columnsFor(items, options.fields);
+  const rows = items.map((item) => columns.map((column) => cell(getPath(item, column))));
+  return format === "markdown" ? renderMarkdownTable(columns, rows) : renderTable(columns, rows);
+}
+
+function renderItem(item: unknown, format: OutputFormat): string {
+  const entries: [string, unknown][] = item && typeof item === "object" ? Object.entries(item) : [["value", item]];
+  if (format === "markdown") {
+    return entries.map(([key, value]) => `- **${key}**: ${cell(value)}`).join("\n");
+  }
+  return renderTable(["field", "value"], entries.map(([key, value]) => [key, cell(value)]));
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+/**
+ * Applies output options to a tool response. The returned structured content
+ * is the processed response; the text is the same as JSON, or a rendering of
+ * it in the requested format.
+ */
+export async function formatOutput(
+  response: ApiResponse,
+  kind: OutputKind,
+  options: OutputOptions
+): Promise<FormattedOutput> {
+  const format = options.format ?? "json";
+  if (!response.success) {
+    return { text: JSON.stringify(response, null, 2), structuredContent: { ...response } };
+  }
+
+  const items = kind === "list" ? listItems(response.data) : null;
+  if (!items) {
+    const data = project(response.data, options.fields);
+    const result = { ...response, data };
+    return {
+      text: format === "json" ? JSON.stringify(result, null, 2) : renderItem(data, format),
+      structuredContent: result,
+    };
+  }
+
+  if (options.limit !== undefined && options.limit < 1) {
+    throw new McpError(ErrorCode.InvalidParams, "limit must be at least 1", { field: "limit" });
+  }
+  const filtered = await filterItems(items, options);
+  const offset = options.cursor ? decodeCursor(options.cursor) : 0;
+  const end = options.limit ? offset + options.limit : filtered.length;
+  const page = filtered.slice(offset, end).map((item) => project(item, options.fields));
+  const nextCursor = end < filtered.length ? encodeCursor(end) : undefined;
+
+  const result = {
+    ...response,
+    data: page,
+    total: filtered.length,
+    ...(nextCursor && { next_cursor: nextCursor }),
+  };
+  if (format === "json") {
+    return { text: JSON.stringify(result, null, 2), structuredContent: result };
+  }
+
+  const footer = [`${page.length} of ${filtered.length} item(s)`];
+  if (nextCursor) footer.push(`next_cursor: ${nextCursor}`);
+  const body = page.length > 0 ? renderList(page, options, format) : "(no items)";
+  return { text: `${body}\n\n${footer.join("\n")}`, structuredContent: result };
+}
@@ -0,0 +1,33 @@
+/**
+ * Tool policy
+ * Read-only mode and the tool allow and deny lists
+ */
+
+import { COOLIFY_MCP_ALLOWED_TOOLS, COOLIFY_MCP_DENIED_TOOLS, COOLIFY_MCP_READ_ONLY } from "./config.js";
+import type { ToolDefinition } from "./registry.js";
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`);
+}
+
+export function matchesAny(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(name));
+}
+
+/**
+ * Returns the reason a tool is blocked by the configured read-only,
+ * allow-list and deny-list settings, or null when it may be used.
+ */
+export function toolPolicyViolation(tool: ToolDefinition): string | null {
+  if (COOLIFY_MCP_READ_ONLY && !tool.readOnly) {
+    return `Tool ${tool.name} is not available in read-only mode`;
+  }
+  if (COOLIFY_MCP_ALLOWED_TOOLS.length > 0 && !matchesAny(tool.name, COOLIFY_MCP_ALLOWED_TOOLS)) {
+    return `Tool ${tool.name} is not in COOLIFY_MCP_ALLOWED_TOOLS`;
+  }
+  if (matchesAny(tool.name, COOLIFY_MCP_DENIED_TOOLS)) {
+    return `Tool ${tool.name} is blocked by COOLIFY_MCP_DENIED_TOOLS`;
+  }
+  return null;
+}
@@ -0,0 +1,79 @@
+/**
+ * Secret redaction
+ * Masks private keys, passwords, secret env values and credentials in URLs
+ * before tool results, resources and prompts leave the server
+ */
+
+import { COOLIFY_MCP_REDACT_KEYS } from "./config.js";
+import { matchesAny } from "./policy.js";
+
+export const MASKED_VALUE = "********";
+
+/** Env var names that usually hold secrets. */
+const SECRET_ENV_PATTERN = /PASS|SECRET|TOKEN|PRIVATE|CREDENTIAL|AUTH|API_?KEY|(^|_)KEY$/i;
+
+/** Fields of Coolify objects that hold secrets, e.g. postgres_password, private_key or sentinel_token. */
+const SECRET_FIELD_PATTERN = /password|passwd|secret|token|private_key|api_?key|credential/i;
+/** Fields that only reference another object, e.g. private_key_uuid or private_key_id. */
+const REFERENCE_FIELD_PATTERN = /_(uuid|id)$/i;
+
+/** Keys of maps such as a manifest's `env` are env var names rather than Coolify fields. */
+const ENV_NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+const PEM_PRIVATE_KEY_PATTERN = /-----BEGIN ([A-Z0-9 ]*)PRIVATE KEY-----[\s\S]*?(?:-----END \1PRIVATE KEY-----|$)/g;
+const URL_PASSWORD_PATTERN = /\b([a-z][a-z0-9+.-]*:\/\/[^\s:@/]*:)([^\s@/]+)@/gi;
+const URL_SECRET_PARAM_PATTERN =
+  /([?&](?:access_token|token|api_key|apikey|key|secret|password|sig|signature)=)([^&#\s"']+)/gi;
+
+const configuredPatterns = COOLIFY_MCP_REDACT_KEYS.map((pattern) => pattern.toLowerCase());
+
+function matchesConfigured(name: string): boolean {
+  return configuredPatterns.length > 0 && matchesAny(name.toLowerCase(), configuredPatterns);
+}
+
+/** Whether an env var's value is a secret: shown once in Coolify, or a secret-looking name. */
+export function isSecretEnv(env: { key: string; is_shown_once?: boolean }): boolean {
+  return Boolean(env.is_shown_once) || SECRET_ENV_PATTERN.test(env.key) || matchesConfigured(env.key);
+}
+
+function isSecretName(name: string): boolean {
+  if (matchesConfigured(name)) return true;
+  if (ENV_NAME_PATTERN.test(name)) return SECRET_ENV_PATTERN.test(name);
+  return SECRET_FIELD_PATTERN.test(name) && !REFERENCE_FIELD_PATTERN.test(name);
+}
+
+/** Masks private key blocks and credentials embedded in URLs. */
+function redactString(value: string): string {
+  return value
+    .replace(PEM_PRIVATE_KEY_PATTERN, MASKED_VALUE)
+    .replace(URL_PASSWORD_PATTERN, `$1${MASKED_VALUE}@`)
+    .replace(URL_SECRET_PARAM_PATTERN, `$1${MASKED_VALUE}`);
+}
+
+/** Masks every non-empty string in `value`, e.g. the `{ from, to }` of a changed password. */
+function maskAll(value: unknown): unknown {
+  if (typeof value === "string") return value === "" ? value : MASKED_VALUE;
+  if (Array.isArray(value)) return value.map(maskAll);
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, maskAll(item)]));
+}
+
+/**
+ * Returns a copy of `value` with secrets masked. Env var objects (`{ key, value, ... }`)
+ * have their value fields masked when the variable is a secret; other objects
+ * have every string under a secret-looking field name masked.
+ */
+export function redact<T>(value: T): T {
+  if (typeof value === "string") return redactString(value) as T;
+  if (Array.isArray(value)) return value.map((item) => redact(item)) as T;
+  if (!value || typeof value !== "object") return value;
+
+  const object = value as Record<string, unknown>;
+  const secretEnv = typeof object.key === "string" && isSecretEnv(object as { key: string; is_shown_once?: boolean });
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(object)) {
+    const secret = isSecretName(key) || (secretEnv && /(^|_)value$/.test(key));
+    result[key] = secret ? maskAll(item) : redact(item);
+  }
+  return result as T;
+}
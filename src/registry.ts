@@ -0,0 +1,161 @@
+/**
+ * Tool registry
+ * Every tool is a single definition holding its schema, handler and metadata.
+ * Built-in tools are registered at startup; extra tools can be loaded from a directory.
+ */
+
+import { readdir } from "node:fs/promises";
+import { extname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { LoggingLevel, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { api, ApiResponse, coolifyRequest } from "./client.js";
+import { OutputKind, outputOptionProperties } from "./output.js";
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export interface ToolContext {
+  signal?: AbortSignal;
+  progress?: (progress: number, total?: number, message?: string) => Promise<void>;
+  /** Sends an MCP logging notification tied to the current call. */
+  log?: (level: LoggingLevel, data: unknown) => Promise<void>;
+  /** Set when the caller passed `reveal_secrets`; results are returned without redaction. */
+  revealSecrets?: boolean;
+}
+
+/**
+ * Destructive calls for which `required` returns true must be repeated with a
+ * confirmation token; the first call returns `describe`'s summary of what will be destroyed.
+ */
+export interface ToolConfirmation {
+  required: (args: Record<string, any>) => boolean;
+  describe: (args: Record<string, any>) => Promise<ApiResponse>;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** Groups related tools, e.g. "applications" or "databases". */
+  category: string;
+  /** Never changes state in Coolify; only these tools are available in read-only mode. */
+  readOnly?: boolean;
+  /** May delete data that cannot be recovered. */
+  destructive?: boolean;
+  /** Answers without calling Coolify, so no version check runs for it. */
+  local?: boolean;
+  confirmation?: ToolConfirmation;
+  /** List and get tools accept the output options (fields, format, filters, pagination) for this kind. */
+  output?: OutputKind;
+  inputSchema: Tool["inputSchema"];
+  handler: (args: Record<string, any>, context: ToolContext) => Promise<ApiResponse>;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const registry = new Map<string, ToolDefinition>();
+
+function definitionError(tool: any): string | null {
+  if (!tool || typeof tool !== "object") return "expected a tool definition object";
+  if (typeof tool.name !== "string" || !/^[A-Za-z0-9_.-]+$/.test(tool.name)) {
+    return "name must be a string of letters, digits, '_', '-' or '.'";
+  }
+  if (typeof tool.description !== "string") return `${tool.name}: description must be a string`;
+  if (typeof tool.category !== "string") return `${tool.name}: category must be a string`;
+  if (tool.inputSchema?.type !== "object") return `${tool.name}: inputSchema must be an object schema`;
+  if (typeof tool.handler !== "function") return `${tool.name}: handler must be a function`;
+  return null;
+}
+
+export function registerTool(tool: ToolDefinition): void {
+  const error = definitionError(tool);
+  if (error) throw new Error(`Invalid tool definition: ${error}`);
+  if (registry.has(tool.name)) throw new Error(`Tool ${tool.name} is already registered`);
+  if (tool.output) {
+    const options = outputOptionProperties(tool.output);
+    const clash = Object.keys(tool.inputSchema.properties ?? {}).find((key) => key in options);
+    if (clash) throw new Error(`Tool ${tool.name} declares ${clash}, which is reserved for output options`);
+    tool = {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: { ...tool.inputSchema.properties, ...options },
+      },
+    };
+  }
+  registry.set(tool.name, tool);
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return registry.get(name);
+}
+
+export function listTools(): ToolDefinition[] {
+  return [...registry.values()];
+}
+
+/** The MCP view of a tool, with its metadata exposed as annotations. */
+export function toMcpTool(tool: ToolDefinition): Tool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.inputSchema,
+    annotations: {
+      readOnlyHint: Boolean(tool.readOnly),
+      destructiveHint: Boolean(tool.destructive),
+    },
+    _meta: { category: tool.category },
+  };
+}
+
+// ============================================================================
+// Tool Modules
+// ============================================================================
+
+/** Passed to tool modules that export a factory instead of a list of definitions. */
+export interface ToolModuleApi {
+  api: typeof api;
+  request: typeof coolifyRequest;
+}
+
+const TOOL_MODULE_EXTENSIONS = new Set([".js", ".mjs", ".cjs"]);
+
+/**
+ * Registers the tools of every module in `dir`. A module's default export (or
+ * its `tools` export) is a definition, a list of definitions, or a function
+ * receiving the Coolify client and returning either. Returns the names of the
+ * registered tools.
+ */
+export async function loadToolModules(dir: string): Promise<string[]> {
+  const root = resolve(dir);
+  let files: string[];
+  try {
+    files = (await readdir(root)).filter((file) => TOOL_MODULE_EXTENSIONS.has(extname(file))).sort();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read tools directory ${root}: ${reason}`);
+  }
+
+  const loaded: string[] = [];
+  for (const file of files) {
+    const path = join(root, file);
+    try {
+      const module = await import(pathToFileURL(path).href);
+      let exported = module.default ?? module.tools;
+      if (typeof exported === "function") {
+        exported = await exported({ api, request: coolifyRequest } satisfies ToolModuleApi);
+      }
+      const definitions: ToolDefinition[] = Array.isArray(exported) ? exported : [exported];
+      for (const tool of definitions) {
+        registerTool(tool);
+        loaded.push(tool.name);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load tool module ${path}: ${reason}`);
+    }
+  }
+  return loaded;
+}
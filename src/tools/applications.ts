@@ -0,0 +1,395 @@
+/**
+ * Application tools
+ * Creating, updating, deleting and running applications, their logs, and rollbacks
+ */
+
+import { api, ApiResponse } from "../client.js";
+import type { ToolDefinition } from "../registry.js";
+import type { Deployment } from "../types.js";
+import { deploymentList } from "./deployments.js";
+import { applicationLogsTool } from "./logs.js";
+
+// ============================================================================
+// Rollback
+// ============================================================================
+
+function deploymentSummary(deployment: Deployment | undefined, version: string | undefined) {
+  return {
+    deployment_uuid: deployment?.deployment_uuid,
+    version,
+    created_at: deployment?.created_at,
+  };
+}
+
+/**
+ * Redeploys the version from the most recent successful deployment before the
+ * current one (or from `targetDeploymentUuid`). Git-based applications are
+ * redeployed at that commit; docker-image applications get their image tag
+ * switched back before starting, and restored again if the start fails.
+ */
+async function rollbackApplication(
+  uuid: string,
+  options: { targetDeploymentUuid?: string; imageTag?: string; force?: boolean }
+): Promise<ApiResponse> {
+  const [app, history] = await Promise.all([
+    api.getApplication(uuid),
+    api.listApplicationDeployments(uuid, { take: 50 }),
+  ]);
+  if (!app.success) return app;
+  if (!history.success) return history;
+
+  const isDockerImage = app.data?.build_pack === "dockerimage";
+  const versionOf = (deployment: Deployment | undefined): string | undefined =>
+    isDockerImage ? undefined : deployment?.commit ?? undefined;
+
+  const successful = deploymentList(history.data).filter((d) => d.status === "finished");
+  const current = successful[0];
+  const currentVersion = (isDockerImage ? app.data!.docker_registry_image_tag : current?.commit) ?? undefined;
+
+  let target: Deployment | undefined;
+  if (options.targetDeploymentUuid) {
+    target = deploymentList(history.data).find((d) => d.deployment_uuid === options.targetDeploymentUuid);
+    if (!target) {
+      return { success: false, error: `Deployment ${options.targetDeploymentUuid} not found for application ${uuid}` };
+    }
+  } else if (!options.imageTag) {
+    target = successful.slice(1).find((d) => isDockerImage || versionOf(d) !== currentVersion);
+  }
+
+  let targetVersion = options.imageTag ?? versionOf(target);
+  if (isDockerImage && !targetVersion && target?.commit && target.commit !== "HEAD") {
+    targetVersion = target.commit;
+  }
+  if (!targetVersion) {
+    return {
+      success: false,
+      error: isDockerImage
+        ? "Could not determine the image tag of the previous deployment; pass image_tag explicitly"
+        : "No earlier successful deployment with a different commit was found",
+    };
+  }
+
+  if (isDockerImage) {
+    const update = await api.updateApplication(uuid, { docker_registry_image_tag: targetVersion });
+    if (!update.success) return update;
+  }
+
+  const started = await api.startApplication(uuid, {
+    force: options.force,
+    commit: isDockerImage ? undefined : targetVersion,
+  });
+  if (!started.success) {
+    if (!isDockerImage) return started;
+    const restored = currentVersion
+      ? await api.updateApplication(uuid, { docker_registry_image_tag: currentVersion })
+      : undefined;
+    let note = `image tag restored to ${currentVersion}`;
+    if (!restored?.success) {
+      note = `image tag left at ${targetVersion}` + (restored ? `; restoring ${currentVersion} failed: ${restored.error}` : "");
+    }
+    return { ...started, error: `${started.error} (${note})` };
+  }
+
+  return {
+    success: true,
+    status: started.status,
+    data: {
+      application_uuid: uuid,
+      kind: isDockerImage ? "image_tag" : "commit",
+      from: deploymentSummary(current, currentVersion),
+      to: deploymentSummary(target, targetVersion),
+      deployment_uuid: started.data?.deployment_uuid,
+      message: started.data?.message,
+    },
+  };
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export const applicationTools: ToolDefinition[] = [
+  {
+    name: "coolify_list_applications",
+    description: "List all applications",
+    category: "applications",
+    readOnly: true,
+    output: "list",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.listApplications(),
+  },
+  {
+    name: "coolify_get_application",
+    description: "Get a specific application by UUID",
+    category: "applications",
+    readOnly: true,
+    output: "item",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.getApplication(args.uuid),
+  },
+  {
+    name: "coolify_create_application_public",
+    description: "Create an application from a public Git repository",
+    category: "applications",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        git_repository: { type: "string", description: "Git repository URL" },
+        git_branch: { type: "string", description: "Git branch" },
+        build_pack: {
+          type: "string",
+          enum: ["nixpacks", "static", "dockerfile", "dockercompose"],
+          description: "Build pack to use",
+        },
+        ports_exposes: { type: "string", description: "Ports to expose (e.g., '3000' or '3000,8080')" },
+        name: { type: "string", description: "Application name" },
+        description: { type: "string", description: "Application description" },
+        domains: { type: "string", description: "Custom domains (comma-separated)" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately after creation" },
+        destination_uuid: { type: "string", description: "Destination UUID (if server has multiple)" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name", "git_repository", "git_branch", "build_pack", "ports_exposes"],
+    },
+    handler: (args) => api.createApplication("public", args),
+  },
+  {
+    name: "coolify_create_application_private_github",
+    description: "Create an application from a private GitHub repository using GitHub App",
+    category: "applications",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        github_app_uuid: { type: "string", description: "GitHub App UUID" },
+        git_repository: { type: "string", description: "Git repository URL" },
+        git_branch: { type: "string", description: "Git branch" },
+        build_pack: { type: "string", description: "Build pack to use" },
+        ports_exposes: { type: "string", description: "Ports to expose" },
+        name: { type: "string", description: "Application name" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name", "github_app_uuid", "git_repository", "git_branch", "build_pack", "ports_exposes"],
+    },
+    handler: (args) => api.createApplication("private-github-app", args),
+  },
+  {
+    name: "coolify_create_application_private_deploy_key",
+    description: "Create an application from a private repository using SSH deploy key",
+    category: "applications",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        private_key_uuid: { type: "string", description: "SSH private key UUID" },
+        git_repository: { type: "string", description: "Git repository URL (SSH format)" },
+        git_branch: { type: "string", description: "Git branch" },
+        build_pack: { type: "string", description: "Build pack to use" },
+        ports_exposes: { type: "string", description: "Ports to expose" },
+        name: { type: "string", description: "Application name" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name", "private_key_uuid", "git_repository", "git_branch", "build_pack", "ports_exposes"],
+    },
+    handler: (args) => api.createApplication("private-deploy-key", args),
+  },
+  {
+    name: "coolify_create_application_dockerfile",
+    description: "Create an application from a Dockerfile",
+    category: "applications",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        git_repository: { type: "string", description: "Git repository URL" },
+        git_branch: { type: "string", description: "Git branch" },
+        dockerfile: { type: "string", description: "Dockerfile content (base64 encoded)" },
+        ports_exposes: { type: "string", description: "Ports to expose" },
+        name: { type: "string", description: "Application name" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name", "ports_exposes"],
+    },
+    handler: (args) => api.createApplication("dockerfile", args),
+  },
+  {
+    name: "coolify_create_application_docker_image",
+    description: "Create an application from a Docker image",
+    category: "applications",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        docker_registry_image_name: { type: "string", description: "Docker image name (e.g., nginx:alpine)" },
+        docker_registry_image_tag: { type: "string", description: "Image tag (default: latest)" },
+        ports_exposes: { type: "string", description: "Ports to expose" },
+        name: { type: "string", description: "Application name" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name", "docker_registry_image_name", "ports_exposes"],
+    },
+    handler: (args) => api.createApplication("dockerimage", args),
+  },
+  {
+    name: "coolify_create_application_docker_compose",
+    description: "Create an application from Docker Compose",
+    category: "applications",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        docker_compose_raw: { type: "string", description: "Docker Compose content (base64 encoded)" },
+        name: { type: "string", description: "Application name" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name", "docker_compose_raw"],
+    },
+    handler: (args) => api.createApplication("dockercompose", args),
+  },
+  {
+    name: "coolify_update_application",
+    description: "Update an existing application",
+    category: "applications",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+        name: { type: "string", description: "Application name" },
+        description: { type: "string", description: "Application description" },
+        domains: { type: "string", description: "Custom domains" },
+        git_repository: { type: "string", description: "Git repository URL" },
+        git_branch: { type: "string", description: "Git branch" },
+        git_commit_sha: { type: "string", description: "Specific commit SHA" },
+        build_pack: { type: "string", description: "Build pack" },
+        ports_exposes: { type: "string", description: "Exposed ports" },
+        ports_mappings: { type: "string", description: "Port mappings" },
+        install_command: { type: "string", description: "Install command" },
+        build_command: { type: "string", description: "Build command" },
+        start_command: { type: "string", description: "Start command" },
+        base_directory: { type: "string", description: "Base directory" },
+        publish_directory: { type: "string", description: "Publish directory" },
+        health_check_enabled: { type: "boolean", description: "Enable health checks" },
+        health_check_path: { type: "string", description: "Health check path" },
+        health_check_interval: { type: "number", description: "Health check interval (seconds)" },
+        limits_memory: { type: "string", description: "Memory limit (e.g., 512m)" },
+        limits_cpus: { type: "string", description: "CPU limit" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, ...appData }) => api.updateApplication(uuid, appData),
+  },
+  {
+    name: "coolify_delete_application",
+    description: "Delete an application. Unless delete_volumes is false, the first call returns a summary and a confirmation token; call again with the token to delete",
+    category: "applications",
+    destructive: true,
+    confirmation: {
+      required: (args) => args.delete_volumes !== false,
+      describe: async (args) => {
+        const response = await api.getApplication(args.uuid);
+        if (!response.success) return response;
+        const app = response.data!;
+        return {
+          success: true,
+          data: {
+            type: "application",
+            uuid: app.uuid,
+            name: app.name,
+            fqdn: app.fqdn,
+            status: app.status,
+            git_repository: app.git_repository,
+            delete_configurations: args.delete_configurations !== false,
+            delete_volumes: true,
+          },
+        };
+      },
+    },
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+        delete_configurations: { type: "boolean", description: "Delete configuration files (default: true)" },
+        delete_volumes: { type: "boolean", description: "Delete associated volumes (default: true)" },
+        confirmation_token: { type: "string", description: "Token returned by the first call; required to carry out the delete" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, ...options }) => api.deleteApplication(uuid, options),
+  },
+  {
+    name: "coolify_start_application",
+    description: "Start/deploy an application",
+    category: "applications",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+        force: { type: "boolean", description: "Force rebuild without cache" },
+        commit: { type: "string", description: "Specific commit SHA to deploy" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, force, commit }) => api.startApplication(uuid, { force, commit }),
+  },
+  {
+    name: "coolify_stop_application",
+    description: "Stop an application",
+    category: "applications",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.stopApplication(args.uuid),
+  },
+  {
+    name: "coolify_restart_application",
+    description: "Restart an application",
+    category: "applications",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.restartApplication(args.uuid),
+  },
+  {
+    name: "coolify_rollback_application",
+    description: "Roll an application back to the most recent successful deployment before the current one, or to a chosen deployment. Redeploys that commit, or that image tag for docker-image applications",
+    category: "applications",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+        deployment_uuid: { type: "string", description: "Deployment to roll back to (default: previous successful deployment)" },
+        image_tag: { type: "string", description: "Image tag to roll back to (docker-image applications only)" },
+        force: { type: "boolean", description: "Force rebuild without cache" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, deployment_uuid, image_tag, force }) => rollbackApplication(uuid, { targetDeploymentUuid: deployment_uuid, imageTag: image_tag, force }),
+  },
+  applicationLogsTool,
+];
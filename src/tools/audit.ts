@@ -0,0 +1,57 @@
+/**
+ * Audit tools
+ * Search the audit log of tool calls made through this server
+ */
+
+import { queryAuditLog } from "../audit.js";
+import type { ToolDefinition } from "../registry.js";
+import { parseTimeArgument } from "../validation.js";
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export const auditTools: ToolDefinition[] = [
+  {
+    name: "coolify_audit_query",
+    description:
+      "Search the audit log of tool calls made through this server, newest first. Each entry has the tool, redacted arguments, instance, Coolify requests made, result status and duration",
+    category: "audit",
+    readOnly: true,
+    local: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        tool: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only calls to these tools; globs such as coolify_delete_* are allowed",
+        },
+        resource_uuid: { type: "string", description: "Only calls whose arguments or requests mention this UUID" },
+        since: {
+          type: "string",
+          description: "Only calls at or after this time: an ISO timestamp, or a duration ago such as 30m, 6h or 7d",
+        },
+        until: { type: "string", description: "Only calls at or before this time, in the same format as since" },
+        status: {
+          type: "string",
+          enum: ["success", "error", "rejected"],
+          description: "Only calls with this result",
+        },
+        limit: { type: "integer", description: "Maximum number of entries to return (default: 50)" },
+      },
+      required: [],
+    },
+    handler: async (args) => {
+      const { entries, truncated } = await queryAuditLog({
+        tool: args.tool,
+        resourceUuid: args.resource_uuid,
+        since: parseTimeArgument(args.since, "since"),
+        until: parseTimeArgument(args.until, "until"),
+        status: args.status,
+        limit: Math.max(args.limit ?? 50, 1),
+      });
+      return { success: true, data: { count: entries.length, truncated, entries } };
+    },
+  },
+];
@@ -0,0 +1,267 @@
+/**
+ * Batch tool
+ * Start, stop, restart or deploy many applications, databases and services in one call
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { api, ApiResponse, listProjectEnvironments, mapWithConcurrency } from "../client.js";
+import { matchesAny, toolPolicyViolation } from "../policy.js";
+import { getTool, ToolContext, ToolDefinition } from "../registry.js";
+
+type BatchAction = "start" | "stop" | "restart" | "deploy";
+type TargetType = "application" | "database" | "service";
+
+interface BatchOperation {
+  action: BatchAction;
+  type?: TargetType;
+  uuids?: string[];
+  tag?: string;
+  project?: string;
+  environment?: string;
+  name?: string;
+}
+
+interface Target {
+  type: TargetType;
+  uuid: string;
+  name: string;
+  environment_id?: unknown;
+  tags?: unknown;
+}
+
+interface BatchRow {
+  operation: number;
+  action: BatchAction;
+  type: TargetType;
+  uuid: string;
+  name: string;
+  status: "planned" | "ok" | "failed" | "cancelled" | "blocked";
+  message?: string;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 10;
+
+const ACTIONS: Record<TargetType, Record<BatchAction, (uuid: string, force: boolean) => Promise<ApiResponse>>> = {
+  application: {
+    start: (uuid, force) => api.startApplication(uuid, { force }),
+    stop: (uuid) => api.stopApplication(uuid),
+    restart: (uuid) => api.restartApplication(uuid),
+    deploy: (uuid, force) => api.deploy({ uuid, force }),
+  },
+  database: {
+    start: (uuid) => api.startDatabase(uuid),
+    stop: (uuid) => api.stopDatabase(uuid),
+    restart: (uuid) => api.restartDatabase(uuid),
+    deploy: (uuid, force) => api.deploy({ uuid, force }),
+  },
+  service: {
+    start: (uuid) => api.startService(uuid),
+    stop: (uuid) => api.stopService(uuid),
+    restart: (uuid) => api.restartService(uuid),
+    deploy: (uuid, force) => api.deploy({ uuid, force }),
+  },
+};
+
+/** The single-resource tool that does the same as `action` on `type`; the batch honours its tool policy. */
+function equivalentTool(action: BatchAction, type: TargetType): string {
+  return action === "deploy" ? "coolify_deploy" : `coolify_${action}_${type}`;
+}
+
+/** Why the tool policy blocks `action` on `type`, or null when it is allowed. */
+function policyViolation(action: BatchAction, type: TargetType): string | null {
+  const tool = getTool(equivalentTool(action, type));
+  return tool ? toolPolicyViolation(tool) : null;
+}
+
+// ============================================================================
+// Target Resolution
+// ============================================================================
+
+async function loadTargets(): Promise<Target[]> {
+  const [applications, databases, services] = await Promise.all([
+    api.listApplications(),
+    api.listDatabases(),
+    api.listServices(),
+  ]);
+  for (const [label, response] of [
+    ["applications", applications],
+    ["databases", databases],
+    ["services", services],
+  ] as const) {
+    if (!response.success) throw new Error(`Failed to list ${label}: ${response.error}`);
+  }
+  return [
+    ...applications.data!.map((item) => ({ ...item, type: "application" as const })),
+    ...databases.data!.map((item) => ({ ...item, type: "database" as const })),
+    ...services.data!.map((item) => ({ ...item, type: "service" as const })),
+  ];
+}
+
+/** IDs of the environments matching a project (name or UUID) and environment name; either may be omitted. */
+async function environmentIds(project: string | undefined, environment: string | undefined): Promise<Set<unknown>> {
+  const matching = await listProjectEnvironments(
+    (p) => !project || p.uuid === project || p.name.toLowerCase() === project.toLowerCase()
+  );
+  if (project && matching.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown project: ${project}`, { field: "project" });
+  }
+
+  const ids = new Set<unknown>();
+  for (const { environments } of matching) {
+    for (const env of environments) {
+      if (!environment || env.name.toLowerCase() === environment.toLowerCase()) ids.add(env.id);
+    }
+  }
+  return ids;
+}
+
+function hasTag(target: Target, tag: string): boolean {
+  const tags = Array.isArray(target.tags) ? target.tags : [];
+  return tags.some((t: any) => String(typeof t === "object" ? t?.name : t).toLowerCase() === tag.toLowerCase());
+}
+
+async function resolveTargets(operation: BatchOperation, targets: Target[]): Promise<Target[]> {
+  const environments =
+    operation.project || operation.environment
+      ? await environmentIds(operation.project, operation.environment)
+      : null;
+  const name = operation.name?.toLowerCase();
+  const unknown = (operation.uuids ?? []).filter((uuid) => !targets.some((target) => target.uuid === uuid));
+  if (unknown.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource UUID(s): ${unknown.join(", ")}`, { field: "uuids" });
+  }
+
+  return targets.filter((target) => {
+    if (operation.type && target.type !== operation.type) return false;
+    if (operation.uuids && !operation.uuids.includes(target.uuid)) return false;
+    if (operation.tag && !hasTag(target, operation.tag)) return false;
+    if (environments && !environments.has(target.environment_id)) return false;
+    if (name && !matchesAny(target.name.toLowerCase(), [name])) return false;
+    return true;
+  });
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Resolves the targets of every operation, then (unless `dryRun`) runs the
+ * operations in order, each one across its targets with bounded concurrency.
+ * Targets whose action the tool policy forbids are marked blocked and skipped.
+ * Returns one row per operation and target.
+ */
+async function runBatch(
+  operations: BatchOperation[],
+  options: { dryRun: boolean; force: boolean; concurrency: number },
+  context: ToolContext
+): Promise<ApiResponse> {
+  operations.forEach((operation, i) => {
+    if (!operation.uuids && !operation.tag && !operation.project && !operation.environment && !operation.name) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `operations[${i}] needs at least one of uuids, tag, project, environment or name`,
+        { field: `operations[${i}]` }
+      );
+    }
+  });
+
+  const targets = await loadTargets();
+  const plan: BatchRow[][] = [];
+  for (const [i, operation] of operations.entries()) {
+    const resolved = await resolveTargets(operation, targets);
+    plan.push(
+      resolved.map((target): BatchRow => {
+        const violation = policyViolation(operation.action, target.type);
+        return {
+          operation: i,
+          action: operation.action,
+          type: target.type,
+          uuid: target.uuid,
+          name: target.name,
+          status: violation ? "blocked" : "planned",
+          ...(violation && { message: violation }),
+        };
+      })
+    );
+  }
+  if (options.dryRun) return { success: true, data: plan.flat() };
+
+  const total = plan.flat().filter((row) => row.status === "planned").length;
+  let done = 0;
+  const rows: BatchRow[] = [];
+  for (const batch of plan) {
+    rows.push(
+      ...(await mapWithConcurrency(batch, options.concurrency, async (row): Promise<BatchRow> => {
+        if (row.status === "blocked") return row;
+        if (context.signal?.aborted) return { ...row, status: "cancelled" };
+        const response = await ACTIONS[row.type][row.action](row.uuid, options.force);
+        done++;
+        await context.progress?.(done, total, `${row.action} ${row.type} ${row.name}: ${response.success ? "ok" : "failed"}`);
+        const message = response.success
+          ? response.data?.message ?? response.data?.deployments?.[0]?.message
+          : response.error;
+        return { ...row, status: response.success ? "ok" : "failed", ...(message && { message: String(message) }) };
+      }))
+    );
+  }
+  return { success: true, data: rows };
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export const batchTools: ToolDefinition[] = [
+  {
+    name: "coolify_batch",
+    description:
+      "Start, stop, restart or deploy many applications, databases and services at once. Each operation selects targets by UUID, tag, project, environment or name glob; operations run in order with bounded concurrency and return one result row per target. Use dry_run to list the targets first",
+    category: "batch",
+    inputSchema: {
+      type: "object",
+      properties: {
+        operations: {
+          type: "array",
+          description: "Operations to run, in order",
+          items: {
+            type: "object",
+            properties: {
+              action: { type: "string", enum: ["start", "stop", "restart", "deploy"], description: "What to do" },
+              type: {
+                type: "string",
+                enum: ["application", "database", "service"],
+                description: "Only targets of this type (default: all)",
+              },
+              uuids: { type: "array", items: { type: "string" }, description: "Target UUIDs" },
+              tag: { type: "string", description: "Targets with this tag" },
+              project: { type: "string", description: "Targets in this project (name or UUID)" },
+              environment: { type: "string", description: "Targets in environments with this name" },
+              name: { type: "string", description: "Targets whose name matches this glob, e.g. shop-*" },
+            },
+            required: ["action"],
+            additionalProperties: false,
+          },
+        },
+        dry_run: { type: "boolean", description: "Only list the resolved targets" },
+        force: { type: "boolean", description: "Force rebuild without cache for start and deploy of applications" },
+        concurrency: {
+          type: "integer",
+          description: `Maximum operations in flight at once (default: ${DEFAULT_CONCURRENCY}, max: ${MAX_CONCURRENCY})`,
+        },
+      },
+      required: ["operations"],
+    },
+    handler: (args, context) =>
+      runBatch(
+        args.operations,
+        {
+          dryRun: Boolean(args.dry_run),
+          force: Boolean(args.force),
+          concurrency: Math.min(Math.max(args.concurrency ?? DEFAULT_CONCURRENCY, 1), MAX_CONCURRENCY),
+        },
+        context
+      ),
+  },
+];
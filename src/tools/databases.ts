@@ -0,0 +1,309 @@
+/**
+ * Database tools
+ * Creating, updating, deleting and running databases of every supported type
+ */
+
+import { api } from "../client.js";
+import type { ToolDefinition } from "../registry.js";
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export const databaseTools: ToolDefinition[] = [
+  {
+    name: "coolify_list_databases",
+    description: "List all databases",
+    category: "databases",
+    readOnly: true,
+    output: "list",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.listDatabases(),
+  },
+  {
+    name: "coolify_get_database",
+    description: "Get a specific database by UUID",
+    category: "databases",
+    readOnly: true,
+    output: "item",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Database UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.getDatabase(args.uuid),
+  },
+  {
+    name: "coolify_create_database_postgresql",
+    description: "Create a PostgreSQL database",
+    category: "databases",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        name: { type: "string", description: "Database name" },
+        description: { type: "string", description: "Description" },
+        image: { type: "string", description: "Docker image (default: postgres:16-alpine)" },
+        postgres_user: { type: "string", description: "PostgreSQL user" },
+        postgres_password: { type: "string", description: "PostgreSQL password" },
+        postgres_db: { type: "string", description: "Database name" },
+        public_port: { type: "number", description: "Public port to expose" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+        limits_memory: { type: "string", description: "Memory limit" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name"],
+    },
+    handler: (args) => api.createDatabase("postgresql", args),
+  },
+  {
+    name: "coolify_create_database_mysql",
+    description: "Create a MySQL database",
+    category: "databases",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        name: { type: "string", description: "Database name" },
+        image: { type: "string", description: "Docker image (default: mysql:8.0)" },
+        mysql_user: { type: "string", description: "MySQL user" },
+        mysql_password: { type: "string", description: "MySQL password" },
+        mysql_database: { type: "string", description: "Database name" },
+        mysql_root_password: { type: "string", description: "Root password" },
+        public_port: { type: "number", description: "Public port" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name"],
+    },
+    handler: (args) => api.createDatabase("mysql", args),
+  },
+  {
+    name: "coolify_create_database_mariadb",
+    description: "Create a MariaDB database",
+    category: "databases",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        name: { type: "string", description: "Database name" },
+        image: { type: "string", description: "Docker image (default: mariadb:11)" },
+        mariadb_user: { type: "string", description: "MariaDB user" },
+        mariadb_password: { type: "string", description: "MariaDB password" },
+        mariadb_database: { type: "string", description: "Database name" },
+        mariadb_root_password: { type: "string", description: "Root password" },
+        public_port: { type: "number", description: "Public port" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name"],
+    },
+    handler: (args) => api.createDatabase("mariadb", args),
+  },
+  {
+    name: "coolify_create_database_mongodb",
+    description: "Create a MongoDB database",
+    category: "databases",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        name: { type: "string", description: "Database name" },
+        image: { type: "string", description: "Docker image (default: mongo:7)" },
+        mongo_initdb_root_username: { type: "string", description: "Root username" },
+        mongo_initdb_root_password: { type: "string", description: "Root password" },
+        mongo_initdb_database: { type: "string", description: "Initial database" },
+        public_port: { type: "number", description: "Public port" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name"],
+    },
+    handler: (args) => api.createDatabase("mongodb", args),
+  },
+  {
+    name: "coolify_create_database_redis",
+    description: "Create a Redis database",
+    category: "databases",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        name: { type: "string", description: "Database name" },
+        image: { type: "string", description: "Docker image (default: redis:7-alpine)" },
+        redis_password: { type: "string", description: "Redis password" },
+        redis_conf: { type: "string", description: "Custom redis.conf content" },
+        public_port: { type: "number", description: "Public port" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name"],
+    },
+    handler: (args) => api.createDatabase("redis", args),
+  },
+  {
+    name: "coolify_create_database_clickhouse",
+    description: "Create a ClickHouse database",
+    category: "databases",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        name: { type: "string", description: "Database name" },
+        image: { type: "string", description: "Docker image" },
+        clickhouse_admin_user: { type: "string", description: "Admin username" },
+        clickhouse_admin_password: { type: "string", description: "Admin password" },
+        public_port: { type: "number", description: "Public port" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name"],
+    },
+    handler: (args) => api.createDatabase("clickhouse", args),
+  },
+  {
+    name: "coolify_create_database_dragonfly",
+    description: "Create a DragonFly database (Redis-compatible)",
+    category: "databases",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        name: { type: "string", description: "Database name" },
+        image: { type: "string", description: "Docker image" },
+        dragonfly_password: { type: "string", description: "Password" },
+        public_port: { type: "number", description: "Public port" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name"],
+    },
+    handler: (args) => api.createDatabase("dragonfly", args),
+  },
+  {
+    name: "coolify_create_database_keydb",
+    description: "Create a KeyDB database (Redis-compatible)",
+    category: "databases",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        name: { type: "string", description: "Database name" },
+        image: { type: "string", description: "Docker image" },
+        keydb_password: { type: "string", description: "Password" },
+        keydb_conf: { type: "string", description: "Custom keydb.conf content" },
+        public_port: { type: "number", description: "Public port" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name"],
+    },
+    handler: (args) => api.createDatabase("keydb", args),
+  },
+  {
+    name: "coolify_update_database",
+    description: "Update a database configuration",
+    category: "databases",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Database UUID" },
+        name: { type: "string", description: "Database name" },
+        description: { type: "string", description: "Description" },
+        image: { type: "string", description: "Docker image" },
+        public_port: { type: "number", description: "Public port" },
+        limits_memory: { type: "string", description: "Memory limit" },
+        limits_cpus: { type: "string", description: "CPU limit" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, ...dbData }) => api.updateDatabase(uuid, dbData),
+  },
+  {
+    name: "coolify_delete_database",
+    description: "Delete a database. The first call returns a summary and a confirmation token; call again with the token to delete",
+    category: "databases",
+    destructive: true,
+    confirmation: {
+      required: () => true,
+      describe: async (args) => {
+        const response = await api.getDatabase(args.uuid);
+        if (!response.success) return response;
+        const db = response.data!;
+        return {
+          success: true,
+          data: {
+            type: "database",
+            uuid: db.uuid,
+            name: db.name,
+            database_type: db.database_type,
+            image: db.image,
+            status: db.status,
+            delete_configurations: args.delete_configurations !== false,
+            delete_volumes: args.delete_volumes !== false,
+          },
+        };
+      },
+    },
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Database UUID" },
+        delete_configurations: { type: "boolean", description: "Delete configuration files (default: true)" },
+        delete_volumes: { type: "boolean", description: "Delete associated volumes (default: true)" },
+        confirmation_token: { type: "string", description: "Token returned by the first call; required to carry out the delete" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, ...options }) => api.deleteDatabase(uuid, options),
+  },
+  {
+    name: "coolify_start_database",
+    description: "Start a database",
+    category: "databases",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Database UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.startDatabase(args.uuid),
+  },
+  {
+    name: "coolify_stop_database",
+    description: "Stop a database",
+    category: "databases",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Database UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.stopDatabase(args.uuid),
+  },
+  {
+    name: "coolify_restart_database",
+    description: "Restart a database",
+    category: "databases",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Database UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.restartDatabase(args.uuid),
+  },
+];
@@ -0,0 +1,369 @@
+/**
+ * Deployment tools
+ * Triggering deployments, listing them, waiting for one to finish and analysing failures
+ */
+
+import { withFreshReads } from "../cache.js";
+import { api, ApiResponse, sleep } from "../client.js";
+import type { ToolContext, ToolDefinition } from "../registry.js";
+import type { Deployment } from "../types.js";
+
+// ============================================================================
+// Deployment Polling
+// ============================================================================
+
+const DEPLOYMENT_TERMINAL_STATUSES = new Set(["finished", "failed", "cancelled", "cancelled-by-user"]);
+
+/** Deployments from a list response, newest first. */
+export function deploymentList(data: Deployment[] | { deployments: Deployment[] } | undefined): Deployment[] {
+  const list = Array.isArray(data) ? data : Array.isArray(data?.deployments) ? data.deployments : [];
+  return [...list].sort((a, b) => Date.parse(b.created_at ?? "0") - Date.parse(a.created_at ?? "0"));
+}
+
+function isDeploymentFinished(status: unknown): boolean {
+  return typeof status === "string" && DEPLOYMENT_TERMINAL_STATUSES.has(status);
+}
+
+/**
+ * Coolify stores deployment logs as a JSON-encoded array of
+ * `{ output, hidden, ... }` entries. Returns the last `lines` visible lines.
+ */
+export function extractLogTail(logs: unknown, lines: number): string[] {
+  let entries: unknown = logs;
+  if (typeof logs === "string") {
+    try {
+      entries = JSON.parse(logs);
+    } catch {
+      return logs.split("\n").slice(-lines);
+    }
+  }
+  if (!Array.isArray(entries)) return [];
+
+  const output: string[] = [];
+  for (const entry of entries) {
+    if (!entry || typeof entry !== "object" || entry.hidden) continue;
+    if (typeof entry.output === "string") output.push(...entry.output.split("\n"));
+  }
+  return output.filter((line) => line.trim() !== "").slice(-lines);
+}
+
+async function waitForDeployment(
+  uuid: string,
+  options: { timeoutSeconds: number; pollIntervalSeconds: number; logLines: number },
+  context: ToolContext
+): Promise<ApiResponse> {
+  const startedAt = Date.now();
+  const deadline = startedAt + options.timeoutSeconds * 1000;
+  const maxInterval = Math.max(options.pollIntervalSeconds * 1000, 15000);
+  let interval = options.pollIntervalSeconds * 1000;
+  let polls = 0;
+
+  while (true) {
+    const response = await withFreshReads(() => api.getDeployment(uuid));
+    polls++;
+    if (!response.success) return response;
+
+    const deployment = response.data!;
+    const elapsedSeconds = Math.round((Date.now() - startedAt) / 1000);
+    const finished = isDeploymentFinished(deployment.status);
+    const timedOut = !finished && Date.now() >= deadline;
+
+    if (finished || timedOut) {
+      return {
+        success: true,
+        status: response.status,
+        data: {
+          deployment_uuid: uuid,
+          status: deployment.status,
+          finished,
+          timed_out: timedOut,
+          elapsed_seconds: elapsedSeconds,
+          polls,
+          commit: deployment.commit,
+          log_tail: extractLogTail(deployment.logs, options.logLines),
+        },
+      };
+    }
+
+    await context.progress?.(
+      elapsedSeconds,
+      options.timeoutSeconds,
+      `Deployment ${uuid} is ${deployment.status ?? "pending"} (${elapsedSeconds}s elapsed)`
+    );
+
+    await sleep(Math.min(interval, Math.max(deadline - Date.now(), 0)), context.signal);
+    interval = Math.min(Math.round(interval * 1.5), maxInterval);
+  }
+}
+
+// ============================================================================
+// Failure Analysis
+// ============================================================================
+
+interface FailureSignature {
+  id: string;
+  title: string;
+  pattern: RegExp;
+  hint: string;
+}
+
+/** Checked in order; the first one matching a line is the most specific explanation. */
+const FAILURE_SIGNATURES: FailureSignature[] = [
+  {
+    id: "out_of_memory",
+    title: "Out of memory",
+    pattern: /out of memory|OOMKilled|exit code:? 137|cannot allocate memory|signal: killed/i,
+    hint: "The build or container ran out of memory. Raise limits_memory, add swap on the server, or build on a larger build server",
+  },
+  {
+    id: "disk_full",
+    title: "Disk full",
+    pattern: /no space left on device/i,
+    hint: "The server disk is full. Prune old images and build cache (docker system prune) or add disk space",
+  },
+  {
+    id: "git_access",
+    title: "Repository access failed",
+    pattern: /permission denied \(publickey\)|could not read from remote repository|repository not found|authentication failed for/i,
+    hint: "Coolify could not clone the repository. Check the deploy key or GitHub App and that the repository and branch exist",
+  },
+  {
+    id: "missing_dependency",
+    title: "Missing dependency",
+    pattern: /cannot find module|module not found|no module named|modulenotfounderror|command not found|unable to locate package|no matching distribution|could not resolve dependenc|npm err! 404|package .* not found/i,
+    hint: "A package, module or command is missing. Check the lock file, the install command and the base image",
+  },
+  {
+    id: "port_conflict",
+    title: "Port conflict",
+    pattern: /address already in use|port is already allocated|EADDRINUSE/i,
+    hint: "The port is taken on the server. Change ports_mappings or stop whatever else is bound to it",
+  },
+  {
+    id: "health_check_timeout",
+    title: "Health check failed",
+    pattern: /container is not healthy|healthcheck.*(fail|timed? ?out)|health check.*(fail|timed? ?out)|unhealthy/i,
+    hint: "The new container never became healthy. Check health_check_path and ports_exposes, and that the app listens on 0.0.0.0",
+  },
+  {
+    id: "dockerfile_step_failed",
+    title: "Dockerfile step failed",
+    pattern: /failed to solve|executor failed running|did not complete successfully|returned a non-zero code/i,
+    hint: "A build step exited with an error. The lines just before it show the command's own output",
+  },
+];
+
+const ERROR_LINE_PATTERN = /\b(error|fatal|failed|failure|exception|panic)\b|npm err!/i;
+/** BuildKit (`#8 [build 3/6] RUN npm ci`) and legacy (`Step 3/6 : RUN npm ci`) build step headers. */
+const BUILD_STEP_PATTERN = /^(?:#\d+ )?\[[^\]]*\d+\/\d+\] .+|^Step \d+\/\d+ : .+/;
+const EXCERPT_CONTEXT_LINES = 10;
+
+/** Deployment fields that change how a build runs, compared with the last successful deployment. */
+const COMPARED_SETTINGS = [
+  "commit",
+  "commit_message",
+  "force_rebuild",
+  "restart_only",
+  "rollback",
+  "pull_request_id",
+  "server_name",
+  "destination_id",
+  "is_webhook",
+  "is_api",
+] as const;
+
+/** Deployment URLs look like `/project/{uuid}/environment/{uuid}/application/{uuid}/deployment/{uuid}`. */
+function deploymentApplicationUuid(deployment: Deployment): string | undefined {
+  const url = typeof deployment.deployment_url === "string" ? deployment.deployment_url : "";
+  return /\/application\/([^/]+)/.exec(url)?.[1];
+}
+
+async function compareWithLastSuccess(deployment: Deployment, applicationUuid: string) {
+  const history = await api.listApplicationDeployments(applicationUuid, { take: 50 });
+  if (!history.success) return { error: `Failed to list deployments: ${history.error}` };
+
+  const createdAt = Date.parse(deployment.created_at ?? "") || Infinity;
+  const previous = deploymentList(history.data).find(
+    (d) =>
+      d.status === "finished" &&
+      d.deployment_uuid !== deployment.deployment_uuid &&
+      Date.parse(d.created_at ?? "0") < createdAt
+  );
+  if (!previous) return { error: "No earlier successful deployment found" };
+
+  const differences = COMPARED_SETTINGS.filter(
+    (field) => JSON.stringify(deployment[field] ?? null) !== JSON.stringify(previous[field] ?? null)
+  ).map((field) => ({ field, this_deployment: deployment[field] ?? null, last_successful: previous[field] ?? null }));
+
+  return {
+    last_successful: {
+      deployment_uuid: previous.deployment_uuid,
+      created_at: previous.created_at,
+      commit: previous.commit,
+    },
+    differences,
+  };
+}
+
+/**
+ * Finds the first error, the build step it happened in and any known failure
+ * signatures in a deployment's log, and compares the deployment with the last
+ * successful one of the same application.
+ */
+async function analyzeDeployment(uuid: string, applicationUuid: string | undefined): Promise<ApiResponse> {
+  const response = await api.getDeployment(uuid);
+  if (!response.success) return response;
+
+  const deployment = response.data!;
+  const lines = extractLogTail(deployment.logs, Infinity);
+  const numbered = (index: number) => `${index + 1}: ${lines[index]}`;
+
+  const firstError = lines.findIndex((line) => ERROR_LINE_PATTERN.test(line));
+  const signatures: { id: string; title: string; hint: string; line: string }[] = [];
+  for (const signature of FAILURE_SIGNATURES) {
+    const index = lines.findIndex((line) => signature.pattern.test(line));
+    if (index !== -1) signatures.push({ id: signature.id, title: signature.title, hint: signature.hint, line: numbered(index) });
+  }
+
+  const anchor = firstError !== -1 ? firstError : lines.length - 1;
+  let failingStep: string | undefined;
+  for (let i = anchor; i >= 0 && !failingStep; i--) {
+    const step = BUILD_STEP_PATTERN.exec(lines[i]);
+    if (step) failingStep = step[0].replace(/^#\d+ /, "");
+  }
+  const excerptStart = Math.max(anchor - EXCERPT_CONTEXT_LINES, 0);
+  const excerpt = lines
+    .slice(excerptStart, anchor + EXCERPT_CONTEXT_LINES + 1)
+    .map((_, offset) => numbered(excerptStart + offset));
+
+  const diagnosis: string[] = [
+    deployment.status === "failed" ? `Deployment ${uuid} failed.` : `Deployment ${uuid} is ${deployment.status}.`,
+  ];
+  if (failingStep) diagnosis.push(`It stopped in build step "${failingStep}".`);
+  if (firstError !== -1) diagnosis.push(`First error (line ${firstError + 1}): "${lines[firstError].trim()}".`);
+  if (signatures.length > 0) diagnosis.push(`Likely cause: ${signatures[0].title}. ${signatures[0].hint}.`);
+  else if (deployment.status === "failed") diagnosis.push("No known failure signature matched; read the excerpt.");
+
+  const appUuid = applicationUuid ?? deploymentApplicationUuid(deployment);
+  return {
+    success: true,
+    status: response.status,
+    data: {
+      deployment_uuid: uuid,
+      application_uuid: appUuid,
+      status: deployment.status,
+      commit: deployment.commit,
+      diagnosis: diagnosis.join(" "),
+      failing_step: failingStep,
+      first_error: firstError === -1 ? undefined : numbered(firstError),
+      signatures,
+      excerpt,
+      log_lines: lines.length,
+      comparison: appUuid
+        ? await compareWithLastSuccess(deployment, appUuid)
+        : { error: "Application UUID unknown; pass application_uuid to compare with the last successful deployment" },
+    },
+  };
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export const deploymentTools: ToolDefinition[] = [
+  {
+    name: "coolify_deploy",
+    description: "Deploy resources by UUID or tag",
+    category: "deployments",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Resource UUID(s), comma-separated" },
+        tag: { type: "string", description: "Tag name(s), comma-separated" },
+        force: { type: "boolean", description: "Force rebuild without cache" },
+        pr: { type: "number", description: "Pull request ID for preview deployment" },
+      },
+      required: [],
+    },
+    handler: (args) => api.deploy({ uuid: args.uuid, tag: args.tag, force: args.force, pr: args.pr }),
+  },
+  {
+    name: "coolify_list_deployments",
+    description: "List deployments for an application",
+    category: "deployments",
+    readOnly: true,
+    output: "list",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+        skip: { type: "number", description: "Number of records to skip" },
+        take: { type: "number", description: "Number of records to take" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, skip, take }) => api.listApplicationDeployments(uuid, { skip, take }),
+  },
+  {
+    name: "coolify_get_deployment",
+    description: "Get a specific deployment by UUID",
+    category: "deployments",
+    readOnly: true,
+    output: "item",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Deployment UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.getDeployment(args.uuid),
+  },
+  {
+    name: "coolify_wait_for_deployment",
+    description: "Wait for a deployment to finish, fail or be cancelled. Returns the final status, duration and the tail of the build log",
+    category: "deployments",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Deployment UUID" },
+        timeout_seconds: { type: "number", description: "Maximum time to wait (default: 600)" },
+        poll_interval_seconds: {
+          type: "number",
+          description: "Initial polling interval, backs off up to 15s (default: 3, minimum: 1)",
+        },
+        log_lines: { type: "number", description: "Number of build log lines to return (default: 50, minimum: 1)" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, timeout_seconds, poll_interval_seconds, log_lines }, context) => waitForDeployment(
+        uuid,
+        {
+          timeoutSeconds: timeout_seconds ?? 600,
+          pollIntervalSeconds: Math.max(poll_interval_seconds ?? 3, 1),
+          logLines: Math.max(Math.floor(log_lines ?? 50), 1),
+        },
+        context
+      ),
+  },
+  {
+    name: "coolify_analyze_deployment",
+    description:
+      "Diagnose a failed deployment: the failing build step, the first error, known causes (out of memory, missing dependency, failed Dockerfile step, port conflict, health check timeout, ...) with a log excerpt, and what changed since the last successful deployment",
+    category: "deployments",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Deployment UUID" },
+        application_uuid: {
+          type: "string",
+          description: "Application UUID, for the comparison with its last successful deployment (default: taken from the deployment)",
+        },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => analyzeDeployment(args.uuid, args.application_uuid),
+  },
+];
@@ -0,0 +1,519 @@
+/**
+ * Environment variable tools
+ * Per-variable CRUD for applications and services, .env export and import, and diff and sync between resources
+ */
+
+import { api, ApiResponse, EnvResourceType } from "../client.js";
+import { parseDotenv, renderDotenv } from "../dotenv.js";
+import { matchesAny } from "../policy.js";
+import { isSecretEnv, MASKED_VALUE } from "../redaction.js";
+import type { ToolDefinition } from "../registry.js";
+import type { EnvironmentVariable } from "../types.js";
+
+// ============================================================================
+// Environment Variable Files
+// ============================================================================
+
+/** Coolify returns a separate copy of every variable for preview deployments; keep one set. */
+async function fetchEnvs(
+  resourceType: EnvResourceType,
+  uuid: string,
+  preview: boolean
+): Promise<ApiResponse<EnvironmentVariable[]>> {
+  const response = await api.listEnvs(resourceType, uuid);
+  if (!response.success) return response;
+  return { ...response, data: response.data!.filter((env) => Boolean(env.is_preview) === preview) };
+}
+
+async function exportEnvs(
+  resourceType: EnvResourceType,
+  uuid: string,
+  options: { maskSecrets: boolean; preview: boolean }
+): Promise<ApiResponse> {
+  const envs = await fetchEnvs(resourceType, uuid, options.preview);
+  if (!envs.success) return envs;
+
+  const masked: string[] = [];
+  const entries = envs.data!.map((env) => {
+    if (options.maskSecrets && isSecretEnv(env)) {
+      masked.push(env.key);
+      return { key: env.key, value: MASKED_VALUE };
+    }
+    return { key: env.key, value: env.value ?? "" };
+  });
+
+  return {
+    success: true,
+    status: envs.status,
+    data: {
+      content: renderDotenv(entries, `Exported from Coolify ${resourceType} ${uuid}${options.preview ? " (preview)" : ""}`),
+      count: entries.length,
+      masked_keys: masked,
+    },
+  };
+}
+
+async function importEnvs(
+  resourceType: EnvResourceType,
+  uuid: string,
+  content: string,
+  options: {
+    dryRun: boolean;
+    deleteMissing: boolean;
+    preview: boolean;
+    flags: { is_buildtime?: boolean; is_runtime?: boolean };
+  }
+): Promise<ApiResponse> {
+  const parsed = parseDotenv(content);
+  const envs = await fetchEnvs(resourceType, uuid, options.preview);
+  if (!envs.success) return envs;
+
+  const current = new Map(envs.data!.map((env) => [env.key, env]));
+  const incoming = new Map(parsed.entries.map((entry) => [entry.key, entry.value]));
+  // Values masked by coolify_export_envs, in full or in part (e.g. a token in a URL), are never written:
+  // an existing value stays untouched and a missing key is not created
+  const masked = parsed.entries.filter((entry) => entry.value.includes(MASKED_VALUE));
+  const added = parsed.entries.filter((entry) => !current.has(entry.key) && !masked.includes(entry));
+  const changed = parsed.entries.filter(
+    (entry) =>
+      current.has(entry.key) && !masked.includes(entry) && (current.get(entry.key)!.value ?? "") !== entry.value
+  );
+  const removed = envs.data!.filter((env) => !incoming.has(env.key));
+
+  const diff = {
+    added: added.map((entry) => entry.key),
+    changed: changed.map((entry) => entry.key),
+    removed: removed.map((env) => env.key),
+    skipped_masked: masked.map((entry) => entry.key),
+    unchanged: parsed.entries.filter((entry) => current.has(entry.key)).length - changed.length,
+    parse_errors: parsed.errors,
+  };
+
+  if (options.dryRun) {
+    return { success: true, data: { dry_run: true, delete_missing: options.deleteMissing, ...diff } };
+  }
+  if (parsed.errors.length > 0) {
+    return { success: false, error: `Refusing to import: ${parsed.errors.join("; ")}` };
+  }
+
+  const updates = [...added, ...changed].map((entry) => ({
+    key: entry.key,
+    value: entry.value,
+    is_preview: options.preview,
+    ...options.flags,
+  }));
+  if (updates.length > 0) {
+    const bulk = await api.bulkUpdateEnvs(resourceType, uuid, updates);
+    if (!bulk.success) return bulk;
+  }
+
+  const deleted: string[] = [];
+  if (options.deleteMissing) {
+    for (const env of removed) {
+      const response = await api.deleteEnv(resourceType, uuid, env.uuid);
+      if (!response.success) {
+        return { success: false, error: `Deleting ${env.key} failed: ${response.error}`, data: { ...diff, deleted } };
+      }
+      deleted.push(env.key);
+    }
+  }
+
+  return { success: true, data: { dry_run: false, ...diff, deleted } };
+}
+
+// ============================================================================
+// Environment Variable Sync
+// ============================================================================
+
+interface EnvEndpoint {
+  type: EnvResourceType;
+  uuid: string;
+}
+
+interface EnvDiff {
+  missing: string[];
+  extra: string[];
+  different: string[];
+  same: number;
+  source: Map<string, EnvironmentVariable>;
+  target: Map<string, EnvironmentVariable>;
+}
+
+/** `missing`: in source but not target; `extra`: in target but not source. */
+async function compareEnvs(
+  source: EnvEndpoint,
+  target: EnvEndpoint,
+  preview: boolean
+): Promise<ApiResponse<EnvDiff>> {
+  const [sourceEnvs, targetEnvs] = await Promise.all([
+    fetchEnvs(source.type, source.uuid, preview),
+    fetchEnvs(target.type, target.uuid, preview),
+  ]);
+  for (const response of [sourceEnvs, targetEnvs]) {
+    if (!response.success) return { success: false, error: response.error, status: response.status };
+  }
+
+  const sourceMap = new Map(sourceEnvs.data!.map((env) => [env.key, env]));
+  const targetMap = new Map(targetEnvs.data!.map((env) => [env.key, env]));
+  const diff: EnvDiff = { missing: [], extra: [], different: [], same: 0, source: sourceMap, target: targetMap };
+
+  for (const [key, env] of sourceMap) {
+    if (!targetMap.has(key)) diff.missing.push(key);
+    else if ((targetMap.get(key)!.value ?? "") !== (env.value ?? "")) diff.different.push(key);
+    else diff.same++;
+  }
+  for (const key of targetMap.keys()) {
+    if (!sourceMap.has(key)) diff.extra.push(key);
+  }
+  return { success: true, data: diff };
+}
+
+async function diffEnvs(
+  source: EnvEndpoint,
+  target: EnvEndpoint,
+  options: { showValues: boolean; preview: boolean }
+): Promise<ApiResponse> {
+  const compared = await compareEnvs(source, target, options.preview);
+  if (!compared.success) return compared;
+
+  const diff = compared.data!;
+  const valueOf = (env: EnvironmentVariable | undefined) => (options.showValues ? env?.value ?? "" : MASKED_VALUE);
+  return {
+    success: true,
+    data: {
+      source,
+      target,
+      missing: diff.missing.map((key) => ({ key, source_value: valueOf(diff.source.get(key)) })),
+      extra: diff.extra.map((key) => ({ key, target_value: valueOf(diff.target.get(key)) })),
+      different: diff.different.map((key) => ({
+        key,
+        source_value: valueOf(diff.source.get(key)),
+        target_value: valueOf(diff.target.get(key)),
+      })),
+      same: diff.same,
+      values_masked: !options.showValues,
+    },
+  };
+}
+
+async function syncEnvs(
+  source: EnvEndpoint,
+  target: EnvEndpoint,
+  options: { keys?: string[]; exclude: string[]; overwrite: boolean; dryRun: boolean; preview: boolean }
+): Promise<ApiResponse> {
+  const compared = await compareEnvs(source, target, options.preview);
+  if (!compared.success) return compared;
+
+  const diff = compared.data!;
+  const candidates = options.overwrite ? [...diff.missing, ...diff.different] : diff.missing;
+  const selected = candidates.filter(
+    (key) => (!options.keys || matchesAny(key, options.keys)) && !matchesAny(key, options.exclude)
+  );
+  const excluded = candidates.filter((key) => !selected.includes(key));
+  const plan = {
+    create: selected.filter((key) => diff.missing.includes(key)),
+    update: selected.filter((key) => diff.different.includes(key)),
+    skipped: excluded,
+  };
+
+  if (options.dryRun || selected.length === 0) {
+    return { success: true, data: { dry_run: options.dryRun, source, target, ...plan } };
+  }
+
+  const variables = selected.map((key) => {
+    const env = diff.source.get(key)!;
+    return {
+      key,
+      value: env.value ?? "",
+      is_preview: options.preview,
+      ...(env.is_buildtime !== undefined && { is_buildtime: env.is_buildtime }),
+      ...(env.is_runtime !== undefined && { is_runtime: env.is_runtime }),
+    };
+  });
+  const bulk = await api.bulkUpdateEnvs(target.type, target.uuid, variables);
+  if (!bulk.success) return bulk;
+
+  return { success: true, data: { dry_run: false, source, target, ...plan } };
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export const envTools: ToolDefinition[] = [
+  // -------------------------------------------------------------------------
+  // Application Environment Variables
+  // -------------------------------------------------------------------------
+  {
+    name: "coolify_list_application_envs",
+    description: "List environment variables for an application",
+    category: "application_envs",
+    readOnly: true,
+    output: "list",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.listEnvs("application", args.uuid),
+  },
+  {
+    name: "coolify_create_application_env",
+    description: "Create an environment variable for an application",
+    category: "application_envs",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+        key: { type: "string", description: "Variable name" },
+        value: { type: "string", description: "Variable value" },
+        is_buildtime: { type: "boolean", description: "Available during build" },
+        is_runtime: { type: "boolean", description: "Available at runtime" },
+        is_preview: { type: "boolean", description: "Apply to preview deployments" },
+      },
+      required: ["uuid", "key", "value"],
+    },
+    handler: ({ uuid, ...envData }) => api.createEnv("application", uuid, envData),
+  },
+  {
+    name: "coolify_update_application_env",
+    description: "Update an environment variable",
+    category: "application_envs",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+        env_uuid: { type: "string", description: "Environment variable UUID" },
+        key: { type: "string", description: "Variable name" },
+        value: { type: "string", description: "Variable value" },
+        is_buildtime: { type: "boolean", description: "Available during build" },
+        is_runtime: { type: "boolean", description: "Available at runtime" },
+        is_preview: { type: "boolean", description: "Apply to preview deployments" },
+      },
+      required: ["uuid", "env_uuid"],
+    },
+    handler: ({ uuid, env_uuid, ...envData }) => api.updateEnv("application", uuid, env_uuid, envData),
+  },
+  {
+    name: "coolify_delete_application_env",
+    description: "Delete an environment variable",
+    category: "application_envs",
+    destructive: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+        env_uuid: { type: "string", description: "Environment variable UUID" },
+      },
+      required: ["uuid", "env_uuid"],
+    },
+    handler: (args) => api.deleteEnv("application", args.uuid, args.env_uuid),
+  },
+  {
+    name: "coolify_bulk_update_application_envs",
+    description: "Bulk create/update environment variables for an application",
+    category: "application_envs",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Application UUID" },
+        variables: {
+          type: "array",
+          description: "Array of environment variables",
+          items: {
+            type: "object",
+            properties: {
+              key: { type: "string" },
+              value: { type: "string" },
+              is_buildtime: { type: "boolean" },
+              is_runtime: { type: "boolean" },
+              is_preview: { type: "boolean" },
+            },
+            required: ["key", "value"],
+          },
+        },
+      },
+      required: ["uuid", "variables"],
+    },
+    handler: (args) => api.bulkUpdateEnvs("application", args.uuid, args.variables),
+  },
+
+  // -------------------------------------------------------------------------
+  // Service Environment Variables
+  // -------------------------------------------------------------------------
+  {
+    name: "coolify_list_service_envs",
+    description: "List environment variables for a service",
+    category: "service_envs",
+    readOnly: true,
+    output: "list",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Service UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.listEnvs("service", args.uuid),
+  },
+  {
+    name: "coolify_create_service_env",
+    description: "Create an environment variable for a service",
+    category: "service_envs",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Service UUID" },
+        key: { type: "string", description: "Variable name" },
+        value: { type: "string", description: "Variable value" },
+      },
+      required: ["uuid", "key", "value"],
+    },
+    handler: ({ uuid, ...envData }) => api.createEnv("service", uuid, envData),
+  },
+  {
+    name: "coolify_update_service_env",
+    description: "Update a service environment variable",
+    category: "service_envs",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Service UUID" },
+        env_uuid: { type: "string", description: "Environment variable UUID" },
+        key: { type: "string", description: "Variable name" },
+        value: { type: "string", description: "Variable value" },
+      },
+      required: ["uuid", "env_uuid"],
+    },
+    handler: ({ uuid, env_uuid, ...envData }) => api.updateEnv("service", uuid, env_uuid, envData),
+  },
+  {
+    name: "coolify_delete_service_env",
+    description: "Delete a service environment variable",
+    category: "service_envs",
+    destructive: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Service UUID" },
+        env_uuid: { type: "string", description: "Environment variable UUID" },
+      },
+      required: ["uuid", "env_uuid"],
+    },
+    handler: (args) => api.deleteEnv("service", args.uuid, args.env_uuid),
+  },
+
+  // -------------------------------------------------------------------------
+  // Environment Variable Files (.env)
+  // -------------------------------------------------------------------------
+  {
+    name: "coolify_export_envs",
+    description: "Export the environment variables of an application or service as .env text, with values of secret-looking keys (passwords, tokens, keys) masked unless reveal_secrets is set",
+    category: "env_files",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource_type: { type: "string", enum: ["application", "service"], description: "Resource type" },
+        uuid: { type: "string", description: "Application or service UUID" },
+        preview: { type: "boolean", description: "Export the preview deployment variables instead" },
+      },
+      required: ["resource_type", "uuid"],
+    },
+    handler: async (args, context) => {
+      // The .env text is opaque to the redaction layer, so secrets are masked here
+      return exportEnvs(args.resource_type, args.uuid, {
+        maskSecrets: !context.revealSecrets,
+        preview: Boolean(args.preview),
+      });
+    },
+  },
+  {
+    name: "coolify_import_envs",
+    description: "Import .env content into an application or service through the bulk endpoint. Supports quoting, multiline values and comments. Use dry_run to see added, changed and removed keys first",
+    category: "env_files",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource_type: { type: "string", enum: ["application", "service"], description: "Resource type" },
+        uuid: { type: "string", description: "Application or service UUID" },
+        content: { type: "string", description: ".env file content" },
+        dry_run: { type: "boolean", description: "Only report added, changed and removed keys" },
+        delete_missing: { type: "boolean", description: "Delete existing variables that are not in the content" },
+        preview: { type: "boolean", description: "Apply to preview deployment variables instead" },
+        is_buildtime: { type: "boolean", description: "Make imported variables available during build" },
+        is_runtime: { type: "boolean", description: "Make imported variables available at runtime" },
+      },
+      required: ["resource_type", "uuid", "content"],
+    },
+    handler: ({ resource_type, uuid, content, dry_run, delete_missing, preview, is_buildtime, is_runtime }) => importEnvs(resource_type, uuid, content, {
+        dryRun: Boolean(dry_run),
+        deleteMissing: Boolean(delete_missing),
+        preview: Boolean(preview),
+        flags: {
+          ...(is_buildtime !== undefined && { is_buildtime }),
+          ...(is_runtime !== undefined && { is_runtime }),
+        },
+      }),
+  },
+  {
+    name: "coolify_diff_envs",
+    description: "Compare the environment variables of two applications or services (e.g. staging vs production). Reports keys that are missing, extra or different; values are masked unless show_values is set",
+    category: "env_files",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        source_type: { type: "string", enum: ["application", "service"], description: "Source resource type" },
+        source_uuid: { type: "string", description: "Source application or service UUID" },
+        target_type: { type: "string", enum: ["application", "service"], description: "Target resource type" },
+        target_uuid: { type: "string", description: "Target application or service UUID" },
+        show_values: { type: "boolean", description: "Include the actual values in the report" },
+        preview: { type: "boolean", description: "Compare preview deployment variables instead" },
+      },
+      required: ["source_type", "source_uuid", "target_type", "target_uuid"],
+    },
+    handler: async (args) => {
+      return diffEnvs(
+        { type: args.source_type, uuid: args.source_uuid },
+        { type: args.target_type, uuid: args.target_uuid },
+        { showValues: Boolean(args.show_values), preview: Boolean(args.preview) }
+      );
+    },
+  },
+  {
+    name: "coolify_sync_envs",
+    description: "Copy environment variables from one application or service to another through the bulk endpoint. Copies missing keys, and changed keys when overwrite is set",
+    category: "env_files",
+    inputSchema: {
+      type: "object",
+      properties: {
+        source_type: { type: "string", enum: ["application", "service"], description: "Source resource type" },
+        source_uuid: { type: "string", description: "Source application or service UUID" },
+        target_type: { type: "string", enum: ["application", "service"], description: "Target resource type" },
+        target_uuid: { type: "string", description: "Target application or service UUID" },
+        keys: { type: "array", items: { type: "string" }, description: "Only sync these keys (names or globs such as SMTP_*)" },
+        exclude: { type: "array", items: { type: "string" }, description: "Keys (names or globs) that are meant to differ and must not be copied" },
+        overwrite: { type: "boolean", description: "Also update keys whose values differ (default: only create missing keys)" },
+        dry_run: { type: "boolean", description: "Only report what would be created, updated or skipped" },
+        preview: { type: "boolean", description: "Sync preview deployment variables instead" },
+      },
+      required: ["source_type", "source_uuid", "target_type", "target_uuid"],
+    },
+    handler: async (args) => {
+      return syncEnvs(
+        { type: args.source_type, uuid: args.source_uuid },
+        { type: args.target_type, uuid: args.target_uuid },
+        {
+          keys: args.keys,
+          exclude: args.exclude ?? [],
+          overwrite: Boolean(args.overwrite),
+          dryRun: Boolean(args.dry_run),
+          preview: Boolean(args.preview),
+        }
+      );
+    },
+  },
+];
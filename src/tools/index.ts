@@ -0,0 +1,32 @@
+/**
+ * Built-in tools, in the order they are listed to clients
+ */
+
+import type { ToolDefinition } from "../registry.js";
+import { applicationTools } from "./applications.js";
+import { auditTools } from "./audit.js";
+import { batchTools } from "./batch.js";
+import { databaseTools } from "./databases.js";
+import { deploymentTools } from "./deployments.js";
+import { envTools } from "./envs.js";
+import { manifestTools } from "./manifests.js";
+import { projectTools } from "./projects.js";
+import { serverTools } from "./servers.js";
+import { serviceTools } from "./services.js";
+import { statusTools } from "./status.js";
+import { systemTools } from "./system.js";
+
+export const builtinTools: ToolDefinition[] = [
+  ...systemTools,
+  ...statusTools,
+  ...projectTools,
+  ...serverTools,
+  ...applicationTools,
+  ...databaseTools,
+  ...serviceTools,
+  ...envTools,
+  ...deploymentTools,
+  ...batchTools,
+  ...manifestTools,
+  ...auditTools,
+];
@@ -0,0 +1,224 @@
+/**
+ * Container logs
+ * Regex and level filtering, time windows, deduplication and follow mode on top
+ * of the application log endpoint
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { api, ApiResponse, sleep } from "../client.js";
+import type { ToolContext, ToolDefinition } from "../registry.js";
+import { parseTimeArgument } from "../validation.js";
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+
+interface LogLine {
+  text: string;
+  time?: number;
+  level?: LogLevel;
+}
+
+interface LogFilter {
+  pattern?: RegExp;
+  level?: LogLevel;
+  since?: number;
+  until?: number;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+const LEVEL_PATTERNS: [LogLevel, RegExp][] = [
+  ["error", /\b(fatal|panic|crit(ical)?|emerg(ency)?|alert|err(or)?|exception)\b/i],
+  ["warn", /\bwarn(ing)?\b/i],
+  ["info", /\b(info|notice)\b/i],
+  ["debug", /\b(debug|trace|verbose)\b/i],
+];
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?) /;
+const MAX_FOLLOW_SECONDS = 300;
+
+// ============================================================================
+// Parsing & Filtering
+// ============================================================================
+
+/** The log endpoints return `{ logs: "..." }`; older versions return the text itself. */
+function logText(data: unknown): string {
+  if (typeof data === "string") return data;
+  const logs = (data as { logs?: unknown } | null)?.logs;
+  return typeof logs === "string" ? logs : "";
+}
+
+function detectLevel(text: string): LogLevel | undefined {
+  const json = /"(?:level|severity)"\s*:\s*"(\w+)"/i.exec(text)?.[1];
+  const subject = json ?? text;
+  return LEVEL_PATTERNS.find(([, pattern]) => pattern.test(subject))?.[0];
+}
+
+/**
+ * Splits log text into lines with their timestamp and level. Indented lines
+ * (stack traces, wrapped output) belong to the line above and take its level and time.
+ */
+function parseLines(text: string): LogLine[] {
+  const lines: LogLine[] = [];
+  let previous: LogLine | undefined;
+  for (const raw of text.split("\n")) {
+    if (raw.trim() === "") continue;
+    const stamp = TIMESTAMP_PATTERN.exec(raw);
+    const body = stamp ? raw.slice(stamp[0].length) : raw;
+    const time = stamp ? Date.parse(stamp[1]) : undefined;
+    const continuation = /^\s/.test(body) && previous !== undefined;
+    const line: LogLine = {
+      text: raw,
+      time: Number.isFinite(time) ? time : previous?.time,
+      level: (continuation ? previous!.level : undefined) ?? detectLevel(body),
+    };
+    lines.push(line);
+    previous = line;
+  }
+  return lines;
+}
+
+function matchesFilter(line: LogLine, filter: LogFilter): boolean {
+  if (filter.pattern && !filter.pattern.test(line.text)) return false;
+  if (filter.level && (!line.level || LEVEL_RANK[line.level] < LEVEL_RANK[filter.level])) return false;
+  // Lines without a timestamp cannot be placed in the window, so they are kept
+  if (filter.since !== undefined && line.time !== undefined && line.time < filter.since) return false;
+  if (filter.until !== undefined && line.time !== undefined && line.time > filter.until) return false;
+  return true;
+}
+
+/** Collapses identical lines (ignoring their timestamps) into the first one, with a repeat count. */
+function dedupe(lines: LogLine[]): string[] {
+  const counts = new Map<string, { text: string; count: number }>();
+  for (const line of lines) {
+    const key = line.text.replace(TIMESTAMP_PATTERN, "");
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { text: line.text, count: 1 });
+  }
+  return [...counts.values()].map(({ text, count }) => (count > 1 ? `${text} (repeated ${count} times)` : text));
+}
+
+/** Lines of `current` after the last line of `previous`; everything when they do not overlap. */
+function newLines(previous: LogLine[], current: LogLine[]): LogLine[] {
+  const last = previous[previous.length - 1];
+  if (!last) return current;
+  for (let i = current.length - 1; i >= 0; i--) {
+    if (current[i].text === last.text) return current.slice(i + 1);
+  }
+  return current;
+}
+
+// ============================================================================
+// Reading & Following
+// ============================================================================
+
+function buildFilter(args: Record<string, any>): LogFilter {
+  let pattern: RegExp | undefined;
+  if (args.pattern !== undefined) {
+    try {
+      pattern = new RegExp(args.pattern, args.ignore_case === false ? "" : "i");
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new McpError(ErrorCode.InvalidParams, `pattern is not a valid regular expression: ${reason}`, {
+        field: "pattern",
+      });
+    }
+  }
+  return {
+    pattern,
+    level: args.level,
+    since: parseTimeArgument(args.since, "since"),
+    until: parseTimeArgument(args.until, "until"),
+  };
+}
+
+/** Sends new lines as progress notifications when the client asked for progress, otherwise as log messages. */
+async function emitLines(lines: string[], elapsedSeconds: number, totalSeconds: number, context: ToolContext) {
+  if (lines.length === 0) return;
+  if (context.progress) {
+    await context.progress(elapsedSeconds, totalSeconds, lines.join("\n"));
+  } else {
+    await context.log?.("info", lines.join("\n"));
+  }
+}
+
+async function readLogs(args: Record<string, any>, context: ToolContext): Promise<ApiResponse> {
+  const { uuid, tail } = args;
+  const filter = buildFilter(args);
+  const since = filter.since === undefined ? undefined : new Date(filter.since).toISOString();
+  const processed = args.pattern !== undefined || args.level || args.since || args.until || args.dedupe;
+
+  const response = await api.getApplicationLogs(uuid, { tail, since });
+  if (!response.success || (!processed && !args.follow_seconds)) return response;
+
+  let seen = parseLines(logText(response.data));
+  const matched = seen.filter((line) => matchesFilter(line, filter));
+  const result: Record<string, unknown> = {
+    total_lines: seen.length,
+    matched_lines: matched.length,
+    lines: args.dedupe ? dedupe(matched) : matched.map((line) => line.text),
+  };
+
+  const followSeconds = Math.min(Math.max(args.follow_seconds ?? 0, 0), MAX_FOLLOW_SECONDS);
+  if (followSeconds > 0) {
+    const startedAt = Date.now();
+    const deadline = startedAt + followSeconds * 1000;
+    const interval = Math.max(args.poll_interval_seconds ?? 5, 1) * 1000;
+    const followed: string[] = [];
+    let polls = 0;
+
+    while (Date.now() < deadline) {
+      await sleep(Math.min(interval, deadline - Date.now()), context.signal);
+      const next = await api.getApplicationLogs(uuid, { tail: tail ?? 1000 });
+      polls++;
+      if (!next.success) return next;
+
+      const current = parseLines(logText(next.data));
+      const fresh = newLines(seen, current).filter((line) => matchesFilter(line, filter));
+      seen = current;
+      const texts = fresh.map((line) => line.text);
+      followed.push(...texts);
+      await emitLines(texts, Math.round((Date.now() - startedAt) / 1000), followSeconds, context);
+    }
+    result.follow = { seconds: followSeconds, polls, new_lines: followed };
+  }
+
+  return { success: true, status: response.status, data: result };
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/** Application logs; Coolify v4 has no log endpoint for databases or services. */
+export const applicationLogsTool: ToolDefinition = {
+  name: "coolify_get_application_logs",
+  description: "Get application logs, optionally filtered by regex, level or time window, deduplicated, or followed for new lines",
+  category: "applications",
+  readOnly: true,
+  inputSchema: {
+    type: "object",
+    properties: {
+      uuid: { type: "string", description: "Application UUID" },
+      tail: { type: "number", description: "Number of lines to retrieve (default: 1000)" },
+      since: {
+        type: "string",
+        description: "Only lines at or after this time: an ISO timestamp, or a duration ago such as 30m or 6h",
+      },
+      until: { type: "string", description: "Only lines at or before this time, in the same format as since" },
+      pattern: { type: "string", description: "Only lines matching this regular expression" },
+      ignore_case: { type: "boolean", description: "Match pattern case-insensitively (default: true)" },
+      level: {
+        type: "string",
+        enum: ["debug", "info", "warn", "error"],
+        description: "Only lines at this level or above; stack trace lines count as the level of the line they follow",
+      },
+      dedupe: { type: "boolean", description: "Collapse repeated lines into one, with a repeat count" },
+      follow_seconds: {
+        type: "number",
+        description: `Keep polling for new lines for this many seconds (max ${MAX_FOLLOW_SECONDS}), streaming them as progress or log notifications`,
+      },
+      poll_interval_seconds: { type: "number", description: "Polling interval in follow mode (default: 5)" },
+    },
+    required: ["uuid"],
+  },
+  handler: readLogs,
+};
@@ -0,0 +1,69 @@
+/**
+ * Manifest tools
+ * Planning and applying project manifests, and exporting live projects as manifests
+ */
+
+import { applyPlan, describePlan, exportProject, formatManifest, parseManifest, planManifest } from "../manifest.js";
+import { redact } from "../redaction.js";
+import type { ToolDefinition } from "../registry.js";
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export const manifestTools: ToolDefinition[] = [
+  {
+    name: "coolify_plan",
+    description: "Compare a YAML or JSON project manifest (environments, applications, databases, services, env vars) with live state and show what would be created or changed",
+    category: "manifests",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        manifest: { type: "string", description: "Project manifest as YAML or JSON text" },
+      },
+      required: ["manifest"],
+    },
+    handler: async (args) => {
+      const plan = await planManifest(parseManifest(args.manifest));
+      return { success: true, data: describePlan(plan) };
+    },
+  },
+  {
+    name: "coolify_apply",
+    description: "Apply a project manifest: re-plans against live state, then creates and updates resources in dependency order, stopping on the first failure",
+    category: "manifests",
+    inputSchema: {
+      type: "object",
+      properties: {
+        manifest: { type: "string", description: "Project manifest as YAML or JSON text" },
+      },
+      required: ["manifest"],
+    },
+    handler: async (args) => {
+      const plan = await planManifest(parseManifest(args.manifest));
+      return applyPlan(plan);
+    },
+  },
+  {
+    name: "coolify_export_project",
+    description: "Snapshot a live project as a manifest (build settings, domains, health checks, resource limits, env var keys) usable with coolify_plan and coolify_apply",
+    category: "manifests",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Project UUID" },
+        include_values: { type: "boolean", description: "Include env var values and database credentials (default: keys only)" },
+        format: { type: "string", enum: ["yaml", "json"], description: "Output format (default: yaml)" },
+      },
+      required: ["uuid"],
+    },
+    handler: async (args, context) => {
+      const manifest = await exportProject(args.uuid, { includeValues: Boolean(args.include_values) });
+      // Redacted before rendering, since the redaction layer only sees the finished YAML or JSON text
+      const exported = context.revealSecrets ? manifest : redact(manifest);
+      return { success: true, data: formatManifest(exported, args.format === "json" ? "json" : "yaml") };
+    },
+  },
+];
@@ -0,0 +1,165 @@
+/**
+ * Project tools
+ * Projects and their environments
+ */
+
+import { api } from "../client.js";
+import type { ToolDefinition } from "../registry.js";
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export const projectTools: ToolDefinition[] = [
+  // -------------------------------------------------------------------------
+  // Projects
+  // -------------------------------------------------------------------------
+  {
+    name: "coolify_list_projects",
+    description: "List all projects",
+    category: "projects",
+    readOnly: true,
+    output: "list",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.listProjects(),
+  },
+  {
+    name: "coolify_get_project",
+    description: "Get a specific project by UUID",
+    category: "projects",
+    readOnly: true,
+    output: "item",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Project UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.getProject(args.uuid),
+  },
+  {
+    name: "coolify_create_project",
+    description: "Create a new project",
+    category: "projects",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Project name" },
+        description: { type: "string", description: "Project description" },
+      },
+      required: ["name"],
+    },
+    handler: (args) => api.createProject(args),
+  },
+  {
+    name: "coolify_update_project",
+    description: "Update an existing project",
+    category: "projects",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Project UUID" },
+        name: { type: "string", description: "New project name" },
+        description: { type: "string", description: "New project description" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, ...updateData }) => api.updateProject(uuid, updateData),
+  },
+  {
+    name: "coolify_delete_project",
+    description: "Delete a project",
+    category: "projects",
+    destructive: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Project UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.deleteProject(args.uuid),
+  },
+
+  // -------------------------------------------------------------------------
+  // Environments
+  // -------------------------------------------------------------------------
+  {
+    name: "coolify_get_project_environment",
+    description: "Get a specific environment within a project",
+    category: "environments",
+    readOnly: true,
+    output: "item",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+      },
+      required: ["project_uuid", "environment_name"],
+    },
+    handler: (args) => api.getEnvironment(args.project_uuid, args.environment_name),
+  },
+  {
+    name: "coolify_create_environment",
+    description: "Create a new environment in a project",
+    category: "environments",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        name: { type: "string", description: "Environment name" },
+        description: { type: "string", description: "Environment description" },
+      },
+      required: ["project_uuid", "name"],
+    },
+    handler: ({ project_uuid, ...envData }) => api.createEnvironment(project_uuid, envData),
+  },
+  {
+    name: "coolify_delete_environment",
+    description: "Delete an environment from a project. The first call returns a summary and a confirmation token; call again with the token to delete",
+    category: "environments",
+    destructive: true,
+    confirmation: {
+      required: () => true,
+      describe: async (args) => {
+        const response = await api.getEnvironment(args.project_uuid, args.environment_name);
+        if (!response.success) return response;
+        const env = response.data!;
+        const summarize = (items: { uuid: string; name: string }[] | undefined) =>
+          (items ?? []).map((item) => ({ uuid: item.uuid, name: item.name }));
+        return {
+          success: true,
+          data: {
+            type: "environment",
+            project_uuid: args.project_uuid,
+            name: env.name,
+            applications: summarize(env.applications),
+            databases: [
+              ...summarize(env.postgresqls),
+              ...summarize(env.mysqls),
+              ...summarize(env.mariadbs),
+              ...summarize(env.mongodbs),
+              ...summarize(env.redis),
+              ...summarize(env.clickhouses),
+              ...summarize(env.dragonflies),
+              ...summarize(env.keydbs),
+            ],
+            services: summarize(env.services),
+          },
+        };
+      },
+    },
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        confirmation_token: { type: "string", description: "Token returned by the first call; required to carry out the delete" },
+      },
+      required: ["project_uuid", "environment_name"],
+    },
+    handler: (args) => api.deleteEnvironment(args.project_uuid, args.environment_name),
+  },
+];
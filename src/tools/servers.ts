@@ -0,0 +1,261 @@
+/**
+ * Server tools
+ * Servers, GitHub Apps used as sources, and the private keys used to reach servers and repositories
+ */
+
+import { api } from "../client.js";
+import type { ToolDefinition } from "../registry.js";
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export const serverTools: ToolDefinition[] = [
+  // -------------------------------------------------------------------------
+  // Servers
+  // -------------------------------------------------------------------------
+  {
+    name: "coolify_list_servers",
+    description: "List all servers",
+    category: "servers",
+    readOnly: true,
+    output: "list",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.listServers(),
+  },
+  {
+    name: "coolify_get_server",
+    description: "Get a specific server by UUID",
+    category: "servers",
+    readOnly: true,
+    output: "item",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Server UUID" },
+        include_resources: { type: "boolean", description: "Include deployed resources" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.getServer(args.uuid, { resources: Boolean(args.include_resources) }),
+  },
+  {
+    name: "coolify_create_server",
+    description: "Create/add a new server",
+    category: "servers",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Server name" },
+        description: { type: "string", description: "Server description" },
+        ip: { type: "string", description: "Server IP address" },
+        port: { type: "number", description: "SSH port (default: 22)" },
+        user: { type: "string", description: "SSH user (default: root)" },
+        private_key_uuid: { type: "string", description: "UUID of the private key for SSH" },
+        is_build_server: { type: "boolean", description: "Use as build server" },
+        instant_validate: { type: "boolean", description: "Validate server immediately" },
+      },
+      required: ["name", "ip", "private_key_uuid"],
+    },
+    handler: (args) => api.createServer(args),
+  },
+  {
+    name: "coolify_update_server",
+    description: "Update an existing server",
+    category: "servers",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Server UUID" },
+        name: { type: "string", description: "Server name" },
+        description: { type: "string", description: "Server description" },
+        ip: { type: "string", description: "Server IP address" },
+        port: { type: "number", description: "SSH port" },
+        user: { type: "string", description: "SSH user" },
+        private_key_uuid: { type: "string", description: "Private key UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, ...serverData }) => api.updateServer(uuid, serverData),
+  },
+  {
+    name: "coolify_delete_server",
+    description: "Delete a server. The first call returns a summary and a confirmation token; call again with the token to delete",
+    category: "servers",
+    destructive: true,
+    confirmation: {
+      required: () => true,
+      describe: async (args) => {
+        const [response, resources] = await Promise.all([
+          api.getServer(args.uuid),
+          api.getServerResources(args.uuid),
+        ]);
+        if (!response.success) return response;
+        const srv = response.data!;
+        return {
+          success: true,
+          data: {
+            type: "server",
+            uuid: srv.uuid,
+            name: srv.name,
+            ip: srv.ip,
+            resources: (resources.data ?? []).map((r) => ({ uuid: r.uuid, name: r.name, type: r.type, status: r.status })),
+          },
+        };
+      },
+    },
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Server UUID" },
+        confirmation_token: { type: "string", description: "Token returned by the first call; required to carry out the delete" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.deleteServer(args.uuid),
+  },
+  {
+    name: "coolify_validate_server",
+    description: "Validate server connectivity and Docker prerequisites",
+    category: "servers",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Server UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.validateServer(args.uuid),
+  },
+  {
+    name: "coolify_get_server_resources",
+    description: "Get all resources (apps, databases, services) on a server",
+    category: "servers",
+    readOnly: true,
+    output: "list",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Server UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.getServerResources(args.uuid),
+  },
+  {
+    name: "coolify_get_server_domains",
+    description: "Get all domain-to-IP mappings for a server",
+    category: "servers",
+    readOnly: true,
+    output: "list",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Server UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.getServerDomains(args.uuid),
+  },
+
+  // -------------------------------------------------------------------------
+  // GitHub Apps (Sources)
+  // -------------------------------------------------------------------------
+  {
+    name: "coolify_list_github_apps",
+    description: "List all GitHub Apps configured in Coolify (needed to get github_app_uuid for private repo deployments)",
+    category: "github_apps",
+    readOnly: true,
+    output: "list",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.listGithubApps(),
+  },
+  {
+    name: "coolify_list_github_app_repositories",
+    description: "List all repositories accessible by a GitHub App. Use the numeric 'id' from coolify_list_github_apps, not the uuid.",
+    category: "github_apps",
+    readOnly: true,
+    output: "list",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "number", description: "GitHub App numeric ID (from coolify_list_github_apps response)" },
+      },
+      required: ["id"],
+    },
+    handler: (args) => api.listGithubAppRepositories(args.id),
+  },
+
+  // -------------------------------------------------------------------------
+  // Private Keys (Security)
+  // -------------------------------------------------------------------------
+  {
+    name: "coolify_list_private_keys",
+    description: "List all private SSH keys",
+    category: "private_keys",
+    readOnly: true,
+    output: "list",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.listPrivateKeys(),
+  },
+  {
+    name: "coolify_get_private_key",
+    description: "Get a specific private key by UUID",
+    category: "private_keys",
+    readOnly: true,
+    output: "item",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Private key UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.getPrivateKey(args.uuid),
+  },
+  {
+    name: "coolify_create_private_key",
+    description: "Create a new private SSH key",
+    category: "private_keys",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Key name" },
+        description: { type: "string", description: "Key description" },
+        private_key: { type: "string", description: "The private key content" },
+      },
+      required: ["name", "private_key"],
+    },
+    handler: (args) => api.createPrivateKey(args),
+  },
+  {
+    name: "coolify_update_private_key",
+    description: "Update a private key",
+    category: "private_keys",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Private key UUID" },
+        name: { type: "string", description: "Key name" },
+        description: { type: "string", description: "Key description" },
+        private_key: { type: "string", description: "The private key content" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, ...keyData }) => api.updatePrivateKey(uuid, keyData),
+  },
+  {
+    name: "coolify_delete_private_key",
+    description: "Delete a private key",
+    category: "private_keys",
+    destructive: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Private key UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.deletePrivateKey(args.uuid),
+  },
+];
@@ -0,0 +1,150 @@
+/**
+ * Service tools
+ * Creating, updating, deleting and running one-click services
+ */
+
+import { api } from "../client.js";
+import type { ToolDefinition } from "../registry.js";
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export const serviceTools: ToolDefinition[] = [
+  {
+    name: "coolify_list_services",
+    description: "List all services",
+    category: "services",
+    readOnly: true,
+    output: "list",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.listServices(),
+  },
+  {
+    name: "coolify_get_service",
+    description: "Get a specific service by UUID",
+    category: "services",
+    readOnly: true,
+    output: "item",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Service UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.getService(args.uuid),
+  },
+  {
+    name: "coolify_create_service",
+    description: "Create a new service (from template or docker-compose)",
+    category: "services",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_uuid: { type: "string", description: "Project UUID" },
+        server_uuid: { type: "string", description: "Server UUID" },
+        environment_name: { type: "string", description: "Environment name" },
+        type: { type: "string", description: "Service type/template name (e.g., 'plausible', 'supabase')" },
+        name: { type: "string", description: "Service name" },
+        description: { type: "string", description: "Service description" },
+        docker_compose_raw: { type: "string", description: "Custom docker-compose content (base64 encoded)" },
+        instant_deploy: { type: "boolean", description: "Deploy immediately" },
+      },
+      required: ["project_uuid", "server_uuid", "environment_name"],
+    },
+    handler: (args) => api.createService(args),
+  },
+  {
+    name: "coolify_update_service",
+    description: "Update a service",
+    category: "services",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Service UUID" },
+        name: { type: "string", description: "Service name" },
+        description: { type: "string", description: "Description" },
+        docker_compose_raw: { type: "string", description: "Docker compose content (base64)" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, ...serviceData }) => api.updateService(uuid, serviceData),
+  },
+  {
+    name: "coolify_delete_service",
+    description: "Delete a service. Unless delete_volumes is false, the first call returns a summary and a confirmation token; call again with the token to delete",
+    category: "services",
+    destructive: true,
+    confirmation: {
+      required: (args) => args.delete_volumes !== false,
+      describe: async (args) => {
+        const response = await api.getService(args.uuid);
+        if (!response.success) return response;
+        const service = response.data!;
+        return {
+          success: true,
+          data: {
+            type: "service",
+            uuid: service.uuid,
+            name: service.name,
+            service_type: service.service_type,
+            status: service.status,
+            delete_configurations: args.delete_configurations !== false,
+            delete_volumes: true,
+          },
+        };
+      },
+    },
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Service UUID" },
+        delete_configurations: { type: "boolean", description: "Delete configuration files (default: true)" },
+        delete_volumes: { type: "boolean", description: "Delete associated volumes (default: true)" },
+        confirmation_token: { type: "string", description: "Token returned by the first call; required to carry out the delete" },
+      },
+      required: ["uuid"],
+    },
+    handler: ({ uuid, ...options }) => api.deleteService(uuid, options),
+  },
+  {
+    name: "coolify_start_service",
+    description: "Start a service",
+    category: "services",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Service UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.startService(args.uuid),
+  },
+  {
+    name: "coolify_stop_service",
+    description: "Stop a service",
+    category: "services",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Service UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.stopService(args.uuid),
+  },
+  {
+    name: "coolify_restart_service",
+    description: "Restart a service",
+    category: "services",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uuid: { type: "string", description: "Service UUID" },
+      },
+      required: ["uuid"],
+    },
+    handler: (args) => api.restartService(args.uuid),
+  },
+];
@@ -0,0 +1,229 @@
+/**
+ * Status overview tool
+ * One report of what is broken right now across servers, resources and recent deployments
+ */
+
+import { api, ApiResponse, listProjectEnvironments, mapWithConcurrency, READ_CONCURRENCY } from "../client.js";
+import type { ToolDefinition } from "../registry.js";
+import type { Application, Resource, Server } from "../types.js";
+import { deploymentList } from "./deployments.js";
+
+type Severity = "critical" | "warning" | "info";
+type GroupBy = "project" | "server";
+
+interface Problem {
+  severity: Severity;
+  kind: string;
+  type: string;
+  uuid: string;
+  name: string;
+  message: string;
+  group?: string;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { critical: 0, warning: 1, info: 2 };
+const UNGROUPED = "(ungrouped)";
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function serverProblems(server: Server): Problem[] {
+  const target = { type: "server", uuid: server.uuid, name: server.name };
+  const reachable = server.settings?.is_reachable ?? server.is_reachable;
+  const usable = server.settings?.is_usable ?? server.is_usable;
+  if (reachable === false) {
+    return [{ severity: "critical", kind: "server_unreachable", ...target, message: `Server ${server.ip} is not reachable` }];
+  }
+  if (usable === false) {
+    return [{ severity: "warning", kind: "server_unvalidated", ...target, message: "Server is not validated or not usable" }];
+  }
+  return [];
+}
+
+/**
+ * Classifies a resource status such as `running:healthy`, `exited:unhealthy` or
+ * `degraded:unhealthy`: exited, degraded and restarting are critical, unhealthy a warning.
+ */
+export function statusProblem(status: string): { severity: "critical" | "warning"; kind: string } | null {
+  const [state = "", health = ""] = status.toLowerCase().split(":");
+  if (["exited", "degraded", "restarting"].includes(state)) return { severity: "critical", kind: `resource_${state}` };
+  if (health === "unhealthy") return { severity: "warning", kind: "resource_unhealthy" };
+  return null;
+}
+
+function resourceProblems(resource: Resource): Problem[] {
+  const problem = statusProblem(resource.status ?? "");
+  if (!problem) return [];
+  return [{ ...problem, type: resource.type, uuid: resource.uuid, name: resource.name, message: `Status is ${resource.status}` }];
+}
+
+/** Failed deployments since `since`; critical when the latest deployment failed, a warning when a later one followed. */
+async function deploymentProblems(app: Application, since: number): Promise<Problem[]> {
+  const response = await api.listApplicationDeployments(app.uuid, { take: 20 });
+  if (!response.success) return [];
+  const deployments = deploymentList(response.data);
+  const target = { type: "application", uuid: app.uuid, name: app.name };
+
+  return deployments
+    .filter((deployment) => deployment.status === "failed" && Date.parse(deployment.created_at ?? "0") >= since)
+    .map((deployment): Problem => ({
+      severity: deployment === deployments[0] ? "critical" : "warning",
+      kind: "deployment_failed",
+      ...target,
+      message: `Deployment ${deployment.deployment_uuid} failed at ${deployment.created_at}${
+        deployment === deployments[0] ? "" : " (a later deployment replaced it)"
+      }`,
+    }));
+}
+
+function healthCheckProblems(app: Application): Problem[] {
+  if (app.health_check_enabled !== false) return [];
+  return [
+    {
+      severity: "info",
+      kind: "health_check_disabled",
+      type: "application",
+      uuid: app.uuid,
+      name: app.name,
+      message: "Health check is disabled, so Coolify cannot tell whether the application is working",
+    },
+  ];
+}
+
+// ============================================================================
+// Grouping
+// ============================================================================
+
+/** Maps resource UUIDs to the name of the project or server they belong to. */
+async function groupNames(groupBy: GroupBy, servers: Server[], resources: Resource[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+
+  if (groupBy === "server") {
+    await mapWithConcurrency(servers, READ_CONCURRENCY, async (server) => {
+      names.set(server.uuid, server.name);
+      const response = await api.getServerResources(server.uuid);
+      for (const resource of response.success ? response.data! : []) names.set(resource.uuid, server.name);
+    });
+    return names;
+  }
+
+  const environmentProjects = new Map<unknown, string>();
+  for (const { project, environments } of await listProjectEnvironments()) {
+    for (const env of environments) environmentProjects.set(env.id, project.name);
+  }
+  for (const resource of resources) {
+    const project = environmentProjects.get(resource.environment_id);
+    if (project) names.set(resource.uuid, project);
+  }
+  return names;
+}
+
+function groupSummaries(problems: Problem[], resources: Resource[], names: Map<string, string>) {
+  const groups = new Map<string, { name: string; resources: number; critical: number; warning: number; info: number }>();
+  const group = (name: string) => {
+    if (!groups.has(name)) groups.set(name, { name, resources: 0, critical: 0, warning: 0, info: 0 });
+    return groups.get(name)!;
+  };
+  for (const resource of resources) group(names.get(resource.uuid) ?? UNGROUPED).resources++;
+  for (const problem of problems) group(problem.group!)[problem.severity]++;
+  return [...groups.values()].sort(
+    (a, b) => b.critical - a.critical || b.warning - a.warning || b.info - a.info || a.name.localeCompare(b.name)
+  );
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+/** Sections that cannot be loaded are listed under `errors`; the rest of the report is still returned. */
+async function statusOverview(options: { hours: number; groupBy?: GroupBy }): Promise<ApiResponse> {
+  const since = Date.now() - options.hours * 3_600_000;
+  const [servers, resources, applications] = await Promise.all([
+    api.listServers(),
+    api.listResources(),
+    api.listApplications(),
+  ]);
+
+  if (!servers.success && !resources.success && !applications.success) return servers;
+  const errors: string[] = [];
+  if (!servers.success) errors.push(`Failed to list servers: ${servers.error}`);
+  if (!resources.success) errors.push(`Failed to list resources: ${resources.error}`);
+  if (!applications.success) errors.push(`Failed to list applications: ${applications.error}`);
+  const serverList = servers.data ?? [];
+  const resourceList = resources.data ?? [];
+  const applicationList = applications.data ?? [];
+
+  const deploymentChecks = await mapWithConcurrency(applicationList, READ_CONCURRENCY, (app) =>
+    deploymentProblems(app, since)
+  );
+  const problems: Problem[] = [
+    ...serverList.flatMap(serverProblems),
+    ...resourceList.flatMap(resourceProblems),
+    ...deploymentChecks.flat(),
+    ...applicationList.flatMap(healthCheckProblems),
+  ];
+
+  let groups;
+  if (options.groupBy) {
+    let names = new Map<string, string>();
+    try {
+      names = await groupNames(options.groupBy, serverList, resourceList);
+    } catch (error) {
+      errors.push(`Failed to group by ${options.groupBy}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    for (const problem of problems) problem.group = names.get(problem.uuid) ?? UNGROUPED;
+    groups = groupSummaries(problems, resourceList, names);
+  }
+
+  problems.sort(
+    (a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || a.name.localeCompare(b.name)
+  );
+  const count = (severity: Severity) => problems.filter((problem) => problem.severity === severity).length;
+
+  return {
+    success: true,
+    data: {
+      generated_at: new Date().toISOString(),
+      deployment_window_hours: options.hours,
+      summary: {
+        servers: serverList.length,
+        resources: resourceList.length,
+        applications: applicationList.length,
+        critical: count("critical"),
+        warning: count("warning"),
+        info: count("info"),
+      },
+      problems,
+      ...(groups && { groups }),
+      ...(errors.length > 0 && { errors }),
+    },
+  };
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export const statusTools: ToolDefinition[] = [
+  {
+    name: "coolify_status_overview",
+    description:
+      "Report what is broken right now: unreachable or unvalidated servers, exited or unhealthy resources, failed deployments and applications without health checks, ranked by severity",
+    category: "status",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        hours: { type: "number", description: "Report deployments that failed in the last N hours (default: 24)" },
+        group_by: {
+          type: "string",
+          enum: ["project", "server"],
+          description: "Also summarize resources and problems per project or per server",
+        },
+      },
+      required: [],
+    },
+    handler: (args) => statusOverview({ hours: args.hours ?? 24, groupBy: args.group_by }),
+  },
+];
@@ -0,0 +1,103 @@
+/**
+ * System tools
+ * Health and version checks, configured instances, teams and the generic resource list
+ */
+
+import { api } from "../client.js";
+import { defaultInstanceName, instances } from "../config.js";
+import type { ToolDefinition } from "../registry.js";
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export const systemTools: ToolDefinition[] = [
+  // -------------------------------------------------------------------------
+  // Health & System
+  // -------------------------------------------------------------------------
+  {
+    name: "coolify_health",
+    description: "Check the health status of the Coolify instance",
+    category: "system",
+    readOnly: true,
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.health(),
+  },
+  {
+    name: "coolify_version",
+    description: "Get the current Coolify version",
+    category: "system",
+    readOnly: true,
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.version(),
+  },
+  {
+    name: "coolify_enable_api",
+    description: "Enable the Coolify API (requires root access)",
+    category: "system",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.enableApi(),
+  },
+  {
+    name: "coolify_list_instances",
+    description: "List the configured Coolify instances and which one is the default",
+    category: "system",
+    readOnly: true,
+    local: true,
+    output: "list",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: async () => ({
+      success: true,
+      data: [...instances.values()].map((instance) => ({
+        name: instance.name,
+        base_url: instance.baseUrl,
+        default: instance.name === defaultInstanceName,
+        has_token: instance.apiToken !== "",
+      })),
+    }),
+  },
+
+  // -------------------------------------------------------------------------
+  // Teams
+  // -------------------------------------------------------------------------
+  {
+    name: "coolify_list_teams",
+    description: "List all teams accessible to the authenticated user",
+    category: "teams",
+    readOnly: true,
+    output: "list",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.listTeams(),
+  },
+  {
+    name: "coolify_get_current_team",
+    description: "Get the current team for the API token",
+    category: "teams",
+    readOnly: true,
+    output: "item",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.getCurrentTeam(),
+  },
+  {
+    name: "coolify_get_team_members",
+    description: "Get members of the current team",
+    category: "teams",
+    readOnly: true,
+    output: "list",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.getTeamMembers(),
+  },
+
+  // -------------------------------------------------------------------------
+  // Resources (Generic)
+  // -------------------------------------------------------------------------
+  {
+    name: "coolify_list_resources",
+    description: "List all resources (applications, databases, services)",
+    category: "resources",
+    readOnly: true,
+    output: "list",
+    inputSchema: { type: "object", properties: {}, required: [] },
+    handler: () => api.listResources(),
+  },
+];
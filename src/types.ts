@@ -0,0 +1,143 @@
+/**
+ * Coolify API entity types
+ * Only the fields this server relies on are declared; Coolify returns many more,
+ * which are kept and passed through untouched
+ */
+
+export interface Team {
+  id: number;
+  name: string;
+  [field: string]: unknown;
+}
+
+export interface Project {
+  uuid: string;
+  name: string;
+  description?: string | null;
+  environments?: Environment[];
+  [field: string]: unknown;
+}
+
+export interface Environment {
+  id?: number;
+  name: string;
+  project_id?: number;
+  applications?: Application[];
+  services?: Service[];
+  postgresqls?: Database[];
+  mysqls?: Database[];
+  mariadbs?: Database[];
+  mongodbs?: Database[];
+  redis?: Database[];
+  clickhouses?: Database[];
+  dragonflies?: Database[];
+  keydbs?: Database[];
+  [field: string]: unknown;
+}
+
+export interface Server {
+  uuid: string;
+  name: string;
+  ip: string;
+  description?: string | null;
+  is_reachable?: boolean;
+  is_usable?: boolean;
+  settings?: { is_reachable?: boolean; is_usable?: boolean; [field: string]: unknown };
+  [field: string]: unknown;
+}
+
+export interface ServerResource {
+  uuid: string;
+  name: string;
+  type: string;
+  status?: string;
+  [field: string]: unknown;
+}
+
+export interface PrivateKey {
+  uuid: string;
+  name: string;
+  description?: string | null;
+  private_key?: string;
+  public_key?: string;
+  [field: string]: unknown;
+}
+
+export interface Application {
+  uuid: string;
+  name: string;
+  description?: string | null;
+  status?: string;
+  fqdn?: string | null;
+  build_pack?: string;
+  git_repository?: string | null;
+  git_branch?: string | null;
+  git_commit_sha?: string | null;
+  docker_registry_image_name?: string | null;
+  docker_registry_image_tag?: string | null;
+  ports_exposes?: string | null;
+  health_check_enabled?: boolean;
+  health_check_path?: string | null;
+  limits_memory?: string;
+  limits_cpus?: string;
+  [field: string]: unknown;
+}
+
+export interface Database {
+  uuid: string;
+  name: string;
+  description?: string | null;
+  database_type?: string;
+  image?: string;
+  status?: string;
+  is_public?: boolean;
+  public_port?: number | null;
+  [field: string]: unknown;
+}
+
+export interface Service {
+  uuid: string;
+  name: string;
+  description?: string | null;
+  service_type?: string | null;
+  status?: string;
+  [field: string]: unknown;
+}
+
+export interface Deployment {
+  deployment_uuid: string;
+  status: string;
+  application_id?: string | number;
+  commit?: string | null;
+  logs?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  [field: string]: unknown;
+}
+
+export interface EnvironmentVariable {
+  uuid: string;
+  key: string;
+  value?: string | null;
+  is_buildtime?: boolean;
+  is_runtime?: boolean;
+  is_preview?: boolean;
+  is_literal?: boolean;
+  is_shown_once?: boolean;
+  [field: string]: unknown;
+}
+
+export interface Resource {
+  uuid: string;
+  name: string;
+  type: string;
+  status?: string;
+  [field: string]: unknown;
+}
+
+/** Response of the start, stop, restart and deploy endpoints. */
+export interface DeploymentStarted {
+  message?: string;
+  deployment_uuid?: string;
+  [field: string]: unknown;
+}
@@ -0,0 +1,116 @@
+/**
+ * Tool argument validation
+ * Checks call arguments against a tool's inputSchema before anything is sent to Coolify
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+/** The subset of JSON Schema used by tool input schemas. */
+interface Schema {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, Schema>;
+  required?: string[];
+  items?: Schema;
+  additionalProperties?: boolean | Schema;
+  [keyword: string]: unknown;
+}
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return (actual === "number" || actual === "integer") && Number.isFinite(value);
+  return actual === type;
+}
+
+function fieldPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Nested objects only reject unknown properties when their schema sets
+ * `additionalProperties: false`; the top level always does (see validateArguments).
+ */
+function check(value: unknown, schema: Schema, path: string, issues: ValidationIssue[], closed: boolean): void {
+  const types = schema.type === undefined ? [] : ([] as string[]).concat(schema.type);
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    const actual = typeOf(value) === "integer" ? "number" : typeOf(value);
+    issues.push({ field: path, message: `expected ${types.join(" or ")}, got ${actual}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ field: path, message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}` });
+    return;
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => check(item, schema.items!, `${path}[${i}]`, issues, false));
+    return;
+  }
+
+  if (typeOf(value) !== "object") return;
+  const object = value as Record<string, unknown>;
+  const properties = schema.properties ?? {};
+
+  for (const key of schema.required ?? []) {
+    if (object[key] === undefined) issues.push({ field: fieldPath(path, key), message: "is required" });
+  }
+  for (const [key, item] of Object.entries(object)) {
+    if (item === undefined) continue;
+    const property = properties[key];
+    if (property) {
+      check(item, property, fieldPath(path, key), issues, false);
+    } else if (typeof schema.additionalProperties === "object") {
+      check(item, schema.additionalProperties, fieldPath(path, key), issues, false);
+    } else if (schema.additionalProperties === false || (closed && schema.additionalProperties !== true)) {
+      issues.push({ field: fieldPath(path, key), message: "is not a known argument" });
+    }
+  }
+}
+
+/**
+ * Validates tool arguments: required fields, types, enums, array items and
+ * nested objects. Unknown top-level arguments are rejected unless the schema
+ * sets `additionalProperties: true`, so nothing unexpected is forwarded to Coolify.
+ */
+export function validateArguments(schema: object, args: Record<string, unknown>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  check(args, schema as Schema, "", issues, true);
+  return issues;
+}
+
+/** An InvalidParams error naming every bad field, with the details in `data.issues`. */
+export function invalidArgumentsError(toolName: string, issues: ValidationIssue[]): McpError {
+  const summary = issues.map((issue) => `${issue.field} ${issue.message}`).join("; ");
+  return new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${toolName}: ${summary}`, {
+    tool: toolName,
+    issues,
+  });
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/** A time argument: an ISO timestamp, or a duration such as 30m, 6h or 7d meaning that long ago. */
+export function parseTimeArgument(value: string | undefined, field: string): number | undefined {
+  if (value === undefined) return undefined;
+  const duration = /^(\d+)([smhd])$/.exec(value.trim());
+  const time = duration ? Date.now() - Number(duration[1]) * DURATION_UNITS[duration[2]] : Date.parse(value);
+  if (!Number.isFinite(time)) {
+    throw new McpError(ErrorCode.InvalidParams, `${field} must be an ISO timestamp or a duration such as 6h`, {
+      field,
+    });
+  }
+  return time;
+}
@@ -0,0 +1,218 @@
+/**
+ * Resource watcher
+ * Polls Coolify in the background and reports resources, deployments and
+ * servers that change state to the registered listeners
+ */
+
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import { withFreshReads } from "./cache.js";
+import { api, listProjectEnvironments, mapWithConcurrency, READ_CONCURRENCY } from "./client.js";
+import {
+  COOLIFY_MCP_WATCH_INTERVAL_SECONDS,
+  COOLIFY_MCP_WATCH_PROJECTS,
+  CoolifyInstance,
+  instances,
+  instanceStorage,
+} from "./config.js";
+import { matchesAny } from "./policy.js";
+import type { Resource } from "./types.js";
+import { deploymentList } from "./tools/deployments.js";
+import { statusProblem } from "./tools/status.js";
+
+export type ResourceKind = "applications" | "databases" | "services" | "servers";
+
+export interface WatchEvent {
+  event:
+    | "resource_status_changed"
+    | "resource_created"
+    | "resource_removed"
+    | "server_unreachable"
+    | "server_reachable"
+    | "deployment_started"
+    | "deployment_finished"
+    | "deployment_failed"
+    | "deployment_cancelled";
+  level: LoggingLevel;
+  instance: string;
+  kind: ResourceKind;
+  uuid: string;
+  name: string;
+  message: string;
+  from?: string;
+  to?: string;
+  deployment_uuid?: string;
+  timestamp: string;
+}
+
+type WatchListener = (event: WatchEvent) => void;
+type Emit = (event: Omit<WatchEvent, "instance" | "timestamp">) => void;
+
+interface InstanceState {
+  initialized: boolean;
+  resources: Map<string, { name: string; type: string; status: string }>;
+  servers: Map<string, { name: string; reachable: boolean | undefined }>;
+  deployments: Map<string, string>;
+}
+
+const listeners = new Set<WatchListener>();
+const states = new Map<string, InstanceState>();
+let timer: NodeJS.Timeout | undefined;
+
+/** Registers a listener for watch events; returns a function that removes it. */
+export function addWatchListener(listener: WatchListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function kindOf(type: string): ResourceKind {
+  if (type === "application") return "applications";
+  if (type === "service") return "services";
+  return "databases";
+}
+
+/** Critical statuses are errors, unhealthy ones warnings; anything else (a recovery) is info. */
+function statusLevel(status: string): LoggingLevel {
+  const problem = statusProblem(status);
+  if (!problem) return "info";
+  return problem.severity === "critical" ? "error" : "warning";
+}
+
+// ============================================================================
+// Polling
+// ============================================================================
+
+/** Environment IDs of the projects in COOLIFY_MCP_WATCH_PROJECTS (names, UUIDs or globs), or null for all. */
+async function watchedEnvironments(): Promise<Set<unknown> | null> {
+  if (COOLIFY_MCP_WATCH_PROJECTS.length === 0) return null;
+  const patterns = COOLIFY_MCP_WATCH_PROJECTS.map((pattern) => pattern.toLowerCase());
+  const matching = await listProjectEnvironments(
+    (project) => matchesAny(project.name.toLowerCase(), patterns) || patterns.includes(project.uuid.toLowerCase())
+  );
+  return new Set(matching.flatMap(({ environments }) => environments.map((env) => env.id)));
+}
+
+function pollResources(state: InstanceState, resources: Resource[], emit: Emit): void {
+  const seen = new Set<string>();
+  for (const resource of resources) {
+    seen.add(resource.uuid);
+    const status = resource.status ?? "unknown";
+    const previous = state.resources.get(resource.uuid);
+    const target = { kind: kindOf(resource.type), uuid: resource.uuid, name: resource.name };
+    if (!previous) {
+      if (state.initialized) {
+        emit({ event: "resource_created", level: "info", ...target, to: status, message: `${resource.type} ${resource.name} was created (${status})` });
+      }
+    } else if (previous.status !== status) {
+      emit({
+        event: "resource_status_changed",
+        level: statusLevel(status),
+        ...target,
+        from: previous.status,
+        to: status,
+        message: `${resource.type} ${resource.name} went from ${previous.status} to ${status}`,
+      });
+    }
+    state.resources.set(resource.uuid, { name: resource.name, type: resource.type, status });
+  }
+
+  for (const [uuid, previous] of state.resources) {
+    if (seen.has(uuid)) continue;
+    state.resources.delete(uuid);
+    emit({ event: "resource_removed", level: "info", kind: kindOf(previous.type), uuid, name: previous.name, message: `${previous.type} ${previous.name} was removed` });
+  }
+}
+
+async function pollServers(state: InstanceState, emit: Emit): Promise<void> {
+  const servers = await api.listServers();
+  if (!servers.success) return;
+  for (const server of servers.data!) {
+    const reachable = server.settings?.is_reachable ?? server.is_reachable;
+    const previous = state.servers.get(server.uuid);
+    state.servers.set(server.uuid, { name: server.name, reachable });
+    if (!previous || previous.reachable === reachable || reachable === undefined) continue;
+    emit({
+      event: reachable ? "server_reachable" : "server_unreachable",
+      level: reachable ? "info" : "error",
+      kind: "servers",
+      uuid: server.uuid,
+      name: server.name,
+      message: `Server ${server.name} (${server.ip}) is ${reachable ? "reachable again" : "no longer reachable"}`,
+    });
+  }
+}
+
+const DEPLOYMENT_EVENTS: Record<string, Pick<WatchEvent, "event" | "level">> = {
+  finished: { event: "deployment_finished", level: "info" },
+  failed: { event: "deployment_failed", level: "error" },
+  cancelled: { event: "deployment_cancelled", level: "warning" },
+  "cancelled-by-user": { event: "deployment_cancelled", level: "warning" },
+};
+
+async function pollDeployments(state: InstanceState, applications: Resource[], emit: Emit): Promise<void> {
+  const histories = await mapWithConcurrency(applications, READ_CONCURRENCY, (app) =>
+    api.listApplicationDeployments(app.uuid, { take: 5 })
+  );
+  const seen = new Set<string>();
+  applications.forEach((app, i) => {
+    if (!histories[i].success) return;
+    for (const deployment of deploymentList(histories[i].data)) {
+      seen.add(deployment.deployment_uuid);
+      const previous = state.deployments.get(deployment.deployment_uuid);
+      state.deployments.set(deployment.deployment_uuid, deployment.status);
+      if (!state.initialized || previous === deployment.status) continue;
+
+      const outcome = DEPLOYMENT_EVENTS[deployment.status];
+      const target = { kind: "applications" as const, uuid: app.uuid, name: app.name, deployment_uuid: deployment.deployment_uuid };
+      if (outcome) {
+        emit({ ...outcome, ...target, from: previous, to: deployment.status, message: `Deployment ${deployment.deployment_uuid} of ${app.name} ${deployment.status}` });
+      } else if (!previous) {
+        emit({ event: "deployment_started", level: "info", ...target, to: deployment.status, message: `Deployment ${deployment.deployment_uuid} of ${app.name} started` });
+      }
+    }
+  });
+
+  // Forget deployments that dropped out of the recent history, unless a history could not be loaded
+  if (histories.every((history) => history.success)) {
+    for (const uuid of state.deployments.keys()) if (!seen.has(uuid)) state.deployments.delete(uuid);
+  }
+}
+
+/** The first poll of an instance only records its state; later polls report what changed since. */
+async function pollInstance(instance: CoolifyInstance): Promise<void> {
+  const state = states.get(instance.name) ?? { initialized: false, resources: new Map(), servers: new Map(), deployments: new Map() };
+  states.set(instance.name, state);
+  const emit: Emit = (event) => {
+    const full = { ...event, instance: instance.name, timestamp: new Date().toISOString() };
+    for (const listener of listeners) listener(full);
+  };
+
+  const [environments, resources] = await Promise.all([watchedEnvironments(), api.listResources()]);
+  if (!resources.success) throw new Error(`Failed to list resources: ${resources.error}`);
+  const watched = resources.data!.filter((resource) => !environments || environments.has(resource.environment_id));
+
+  pollResources(state, watched, emit);
+  await pollServers(state, emit);
+  await pollDeployments(state, watched.filter((resource) => resource.type === "application"), emit);
+  state.initialized = true;
+}
+
+async function pollAll(): Promise<void> {
+  for (const instance of instances.values()) {
+    try {
+      await instanceStorage.run(instance, () => withFreshReads(() => pollInstance(instance)));
+    } catch (error) {
+      console.error(`Watcher: polling instance "${instance.name}" failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/** Starts polling every COOLIFY_MCP_WATCH_INTERVAL_SECONDS; does nothing when already running. */
+export function startWatcher(): void {
+  if (timer) return;
+  const schedule = () => {
+    timer = setTimeout(() => pollAll().finally(schedule), COOLIFY_MCP_WATCH_INTERVAL_SECONDS * 1000);
+    timer.unref();
+  };
+  timer = setTimeout(() => pollAll().finally(schedule), 0);
+  timer.unref();
+}